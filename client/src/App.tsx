@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -8,6 +9,9 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { MobileBottomNav } from "@/components/mobile-bottom-nav";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import CommandPalette from "@/components/command-palette";
+import { Button } from "@/components/ui/button";
+import { Search } from "lucide-react";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import Discover from "@/pages/discover";
@@ -18,6 +22,10 @@ import Timeline from "@/pages/timeline";
 import Settings from "@/pages/settings";
 import SearchUsers from "@/pages/search-users";
 import ConcertDetail from "@/pages/concert-detail";
+import ArtistDetail from "@/pages/artist-detail";
+import VenueDetail from "@/pages/venue-detail";
+import Notifications from "@/pages/notifications";
+import Moderation from "@/pages/moderation";
 import AuthPage from "@/pages/auth-page";
 import LandingPage from "@/pages/landing";
 import NotFound from "@/pages/not-found";
@@ -28,14 +36,17 @@ function Router() {
       <Route path="/" component={LandingPage} />
       <ProtectedRoute path="/discover" component={Discover} />
       <ProtectedRoute path="/concerts/:id" component={ConcertDetail} />
+      <ProtectedRoute path="/artists/:id" component={ArtistDetail} />
+      <ProtectedRoute path="/venues/:id" component={VenueDetail} />
       <ProtectedRoute path="/timeline" component={Timeline} />
       <ProtectedRoute path="/search-users" component={SearchUsers} />
       <ProtectedRoute path="/reviews" component={Reviews} />
       <ProtectedRoute path="/wishlist" component={Wishlist} />
       <ProtectedRoute path="/profile/:username" component={Profile} />
       <ProtectedRoute path="/profile" component={Profile} />
-      <ProtectedRoute path="/notifications" component={() => <NotFound />} />
+      <ProtectedRoute path="/notifications" component={Notifications} />
       <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute path="/moderation" component={Moderation} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
@@ -45,6 +56,7 @@ function Router() {
 function MainApp() {
   const { user, isLoading } = useAuth();
   const [location, navigate] = useLocation();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   
   const style = {
     "--sidebar-width": "20rem",
@@ -95,13 +107,35 @@ function MainApp() {
                 <h1 className="font-semibold text-lg">ConcertCritic</h1>
               </div>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                className="w-64 justify-start text-muted-foreground"
+                onClick={() => setIsSearchOpen(true)}
+                data-testid="button-open-search"
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search...
+                <kbd className="ml-auto text-xs tracking-widest">⌘K</kbd>
+              </Button>
+              <ThemeToggle />
+            </div>
           </header>
           
           {/* Mobile Header - only show on mobile */}
           <header className="md:hidden flex items-center justify-between p-4 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
             <h1 className="font-semibold text-lg">ConcertCritic</h1>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsSearchOpen(true)}
+                data-testid="button-open-search-mobile"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <ThemeToggle />
+            </div>
           </header>
           
           {/* Main Content - with padding bottom for mobile nav */}
@@ -113,6 +147,8 @@ function MainApp() {
       
       {/* Mobile Bottom Navigation - only show on mobile */}
       <MobileBottomNav onCreateReview={handleCreateReview} />
+
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </SidebarProvider>
   );
 }
@@ -1,4 +1,4 @@
-import { Compass, PenTool, User as UserIcon, Heart, Settings, Bell, Users, LogOut } from "lucide-react";
+import { Compass, PenTool, User as UserIcon, Heart, Settings, Bell, Users, LogOut, ShieldAlert } from "lucide-react";
 import logoImage from "@assets/cc-logo.png";
 import {
   Sidebar,
@@ -17,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useUnreadNotificationsCount, formatUnreadCount } from "@/hooks/use-notifications";
 import type { User } from "@shared/schema";
 
 const navigationItems = [
@@ -51,7 +52,7 @@ const settingsItems = [
     title: "Notifications",
     url: "/notifications",
     icon: Bell,
-    badge: "3"
+    showUnreadBadge: true,
   },
   {
     title: "Settings",
@@ -60,9 +61,21 @@ const settingsItems = [
   },
 ];
 
+// Only shown to moderators and admins
+const moderationItem = {
+  title: "Moderation",
+  url: "/moderation",
+  icon: ShieldAlert,
+  showUnreadBadge: false,
+};
+
 export function AppSidebar() {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
+  const unreadCount = useUnreadNotificationsCount();
+  const accountItems = user?.role === 'moderator' || user?.role === 'admin'
+    ? [...settingsItems, moderationItem]
+    : settingsItems;
 
   const handleNavigation = (url: string, title: string) => {
     console.log(`Navigating to ${title}: ${url}`);
@@ -185,7 +198,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Account</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {settingsItems.map((item) => {
+              {accountItems.map((item) => {
                 const isActive = location === item.url;
                 return (
                   <SidebarMenuItem key={item.title}>
@@ -202,9 +215,9 @@ export function AppSidebar() {
                           <item.icon className="h-4 w-4" />
                           <span>{item.title}</span>
                         </div>
-                        {item.badge && (
-                          <Badge variant="secondary" className="ml-auto">
-                            {item.badge}
+                        {item.showUnreadBadge && unreadCount > 0 && (
+                          <Badge variant="secondary" className="ml-auto" data-testid="badge-unread-notifications">
+                            {formatUnreadCount(unreadCount)}
                           </Badge>
                         )}
                       </button>
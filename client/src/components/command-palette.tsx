@@ -0,0 +1,189 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Building2, Calendar, Loader2, MessageSquare, Music, User } from "lucide-react";
+import type { SearchResults } from "@shared/schema";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+// Snippets come back with matches wrapped in <mark>; render them as text so
+// nothing else in the snippet is ever treated as HTML
+function Highlighted({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(<mark>.*?<\/mark>)/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith("<mark>") ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export default function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [, navigate] = useLocation();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  // Cmd+K / Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30 * 1000,
+  });
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    setQuery("");
+    navigate(path);
+  };
+
+  const hasResults = !!results && Object.values(results).some(group => group.length > 0);
+  const groups = results ? [
+    results.concerts.length > 0 && (
+      <CommandGroup key="concerts" heading="Concerts">
+        {results.concerts.map(concert => (
+          <CommandItem
+            key={concert.id}
+            value={`concert-${concert.id}`}
+            onSelect={() => go(`/concerts/${concert.id}`)}
+            data-testid={`search-result-concert-${concert.id}`}
+          >
+            <Calendar className="mr-2" />
+            <span className="flex-1 truncate"><Highlighted snippet={concert.snippet} /></span>
+            <span className="ml-2 text-xs text-muted-foreground">{concert.date}</span>
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    ),
+    results.artists.length > 0 && (
+      <CommandGroup key="artists" heading="Artists">
+        {results.artists.map(artist => (
+          <CommandItem
+            key={artist.id}
+            value={`artist-${artist.id}`}
+            onSelect={() => go(`/artists/${artist.id}`)}
+            data-testid={`search-result-artist-${artist.id}`}
+          >
+            <Music className="mr-2" />
+            <Highlighted snippet={artist.snippet} />
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    ),
+    results.venues.length > 0 && (
+      <CommandGroup key="venues" heading="Venues">
+        {results.venues.map(venue => (
+          <CommandItem
+            key={venue.id}
+            value={`venue-${venue.id}`}
+            onSelect={() => go(`/venues/${venue.id}`)}
+            data-testid={`search-result-venue-${venue.id}`}
+          >
+            <Building2 className="mr-2" />
+            <Highlighted snippet={venue.snippet} />
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    ),
+    results.users.length > 0 && (
+      <CommandGroup key="users" heading="People">
+        {results.users.map(user => (
+          <CommandItem
+            key={user.id}
+            value={`user-${user.id}`}
+            onSelect={() => go(user.username ? `/profile/${user.username}` : "/search-users")}
+            data-testid={`search-result-user-${user.id}`}
+          >
+            <User className="mr-2" />
+            <Highlighted snippet={user.snippet} />
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    ),
+    results.reviews.length > 0 && (
+      <CommandGroup key="reviews" heading="Reviews">
+        {results.reviews.map(review => (
+          <CommandItem
+            key={review.id}
+            value={`review-${review.id}`}
+            onSelect={() => go(`/concerts/${review.concertId}`)}
+            data-testid={`search-result-review-${review.id}`}
+          >
+            <MessageSquare className="mr-2 self-start mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">
+                {review.concert.artist} · @{review.user.username || "anonymous"}
+              </p>
+              <p className="text-xs text-muted-foreground line-clamp-2">
+                <Highlighted snippet={review.snippet} />
+              </p>
+            </div>
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    ),
+  ].filter(Boolean) : [];
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search concerts, artists, venues, people, reviews..."
+        value={query}
+        onValueChange={setQuery}
+        data-testid="input-command-search"
+      />
+      <CommandList>
+        {isFetching && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!isFetching && debouncedQuery.length >= MIN_QUERY_LENGTH && !hasResults && (
+          <CommandEmpty>No results for "{debouncedQuery}"</CommandEmpty>
+        )}
+        {groups.map((group, index) => (
+          <Fragment key={index}>
+            {index > 0 && <CommandSeparator />}
+            {group}
+          </Fragment>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -4,10 +4,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Trash2, Send } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Trash2, Send, MoreVertical, Flag } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { ReportDialog } from "./report-dialog";
 import type { ReviewCommentWithUser } from "@shared/schema";
 
 interface CommentDialogProps {
@@ -19,6 +21,7 @@ interface CommentDialogProps {
 
 export function CommentDialog({ isOpen, onClose, reviewId, reviewTitle }: CommentDialogProps) {
   const [newComment, setNewComment] = useState("");
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { user: currentUser } = useAuth();
@@ -169,7 +172,30 @@ export function CommentDialog({ isOpen, onClose, reviewId, reviewTitle }: Commen
                         <span className="text-xs text-muted-foreground">
                           {comment.createdAt ? new Date(comment.createdAt).toLocaleDateString() : 'Unknown date'}
                         </span>
-                        {/* Only show delete button for own comments */}
+                        {/* Own comments can be deleted, anyone else's reported */}
+                        {currentUser && comment.user.id !== currentUser.id && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                data-testid={`button-comment-menu-${comment.id}`}
+                              >
+                                <MoreVertical className="h-3 w-3" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => setReportingCommentId(comment.id)}
+                                data-testid={`button-report-comment-${comment.id}`}
+                              >
+                                <Flag className="h-4 w-4 mr-2" />
+                                Report
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                         {currentUser && comment.user.id === currentUser.id && (
                           <Button
                             variant="ghost"
@@ -227,6 +253,15 @@ export function CommentDialog({ isOpen, onClose, reviewId, reviewTitle }: Commen
           </form>
         </div>
       </DialogContent>
+
+      {reportingCommentId && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReportingCommentId(null)}
+          targetType="comment"
+          targetId={reportingCommentId}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
@@ -17,8 +17,17 @@ interface ConcertCardProps {
   rating?: number;
   isWishlisted?: boolean;
   ticketUrl?: string;
+  distanceKm?: number;
+  status?: string | null;
 }
 
+// Banner text for shows that aren't going ahead as listed
+const statusBanners: Record<string, string> = {
+  cancelled: "Cancelled",
+  postponed: "Postponed",
+  rescheduled: "Rescheduled",
+};
+
 export default function ConcertCard({
   id,
   artist,
@@ -32,7 +41,11 @@ export default function ConcertCard({
   rating,
   isWishlisted = false,
   ticketUrl,
+  distanceKm,
+  status,
 }: ConcertCardProps) {
+  const statusBanner = status ? statusBanners[status] : undefined;
+
   const [wishlistState, setWishlistState] = useState(isWishlisted);
 
   const handleWishlistToggle = () => {
@@ -93,6 +106,17 @@ export default function ConcertCard({
             {genre}
           </Badge>
         )}
+
+        {statusBanner && (
+          <div
+            className={`absolute bottom-0 inset-x-0 py-1 text-center text-sm font-semibold uppercase tracking-wide ${
+              status === "cancelled" ? "bg-destructive text-destructive-foreground" : "bg-amber-500 text-black"
+            }`}
+            data-testid={`banner-status-${id}`}
+          >
+            {statusBanner}
+          </div>
+        )}
       </div>
       
       <CardContent className="p-4">
@@ -114,6 +138,11 @@ export default function ConcertCard({
             <div className="flex items-center gap-1">
               <MapPin className="h-4 w-4" />
               <span>{city}</span>
+              {distanceKm !== undefined && (
+                <span data-testid={`text-distance-${id}`}>
+                  · {distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km
+                </span>
+              )}
             </div>
           </div>
 
@@ -132,7 +161,7 @@ export default function ConcertCard({
             <Button 
               size="sm" 
               onClick={handleTicketClick}
-              disabled={!ticketUrl}
+              disabled={!ticketUrl || status === "cancelled"}
               data-testid={`button-tickets-${id}`}
             >
               <ExternalLink className="h-4 w-4 mr-1" />
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Concert, ConcertEdit } from "@shared/schema";
+
+type EditableField = keyof Pick<ConcertEdit, 'artist' | 'venue' | 'city' | 'date' | 'time' | 'price' | 'genre' | 'ticketUrl' | 'description'>;
+
+export const concertFieldLabels: Record<string, string> = {
+  artist: "Artist",
+  venue: "Venue",
+  city: "City",
+  date: "Date",
+  endDate: "End date",
+  time: "Time",
+  price: "Price",
+  timezone: "Timezone",
+  genre: "Genre",
+  description: "Description",
+  imageUrl: "Image",
+  ticketUrl: "Ticket link",
+  status: "Status",
+  isFestival: "Festival",
+};
+
+const fields: Array<{ name: EditableField; placeholder?: string; multiline?: boolean; required?: boolean }> = [
+  { name: "artist", required: true },
+  { name: "venue", required: true },
+  { name: "city", placeholder: "e.g. Austin, TX", required: true },
+  { name: "date", placeholder: "YYYY-MM-DD", required: true },
+  { name: "time", placeholder: "e.g. 8:00 PM", required: true },
+  { name: "price", placeholder: "e.g. $45 - $120", required: true },
+  { name: "genre" },
+  { name: "ticketUrl", placeholder: "https://" },
+  { name: "description", multiline: true },
+];
+
+const toFormValues = (concert: Concert) =>
+  Object.fromEntries(fields.map(({ name }) => [name, concert[name] ?? ""])) as Record<EditableField, string>;
+
+interface ConcertEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  concert: Concert;
+  // Owners and moderators edit directly; everyone else sends a proposal
+  canEdit: boolean;
+}
+
+export function ConcertEditDialog({ open, onOpenChange, concert, canEdit }: ConcertEditDialogProps) {
+  const [values, setValues] = useState(() => toFormValues(concert));
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(concert));
+      setNote("");
+    }
+  }, [open, concert]);
+
+  // Only send what changed; cleared optional fields become null
+  const changes = Object.fromEntries(
+    fields
+      .filter(({ name }) => values[name].trim() !== (concert[name] ?? ""))
+      .map(({ name }) => [name, values[name].trim() || null]),
+  );
+  const hasChanges = Object.keys(changes).length > 0;
+  const missingRequired = fields.some(({ name, required }) => required && !values[name].trim());
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      canEdit
+        ? apiRequest('PUT', `/api/concerts/${concert.id}`, changes)
+        : apiRequest('POST', `/api/concerts/${concert.id}/proposals`, { changes, note: note.trim() || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/concerts', concert.id] });
+      toast({
+        title: canEdit ? "Concert updated" : "Edit suggested",
+        description: canEdit
+          ? "Your changes are saved and recorded in the history."
+          : "The concert's creator or a moderator will review your suggestion.",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: canEdit ? "Failed to save changes" : "Failed to send your suggestion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto" data-testid="dialog-edit-concert">
+        <DialogHeader>
+          <DialogTitle>{canEdit ? "Edit concert details" : "Suggest an edit"}</DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? "Changes apply right away and can be reverted from the history."
+              : "Spotted something wrong? Suggest a fix for the concert's creator or a moderator to approve."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {fields.map(({ name, placeholder, multiline }) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`concert-edit-${name}`}>{concertFieldLabels[name]}</Label>
+              {multiline ? (
+                <Textarea
+                  id={`concert-edit-${name}`}
+                  value={values[name]}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                  rows={3}
+                  className="resize-none"
+                  data-testid={`input-concert-${name}`}
+                />
+              ) : (
+                <Input
+                  id={`concert-edit-${name}`}
+                  value={values[name]}
+                  placeholder={placeholder}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                  data-testid={`input-concert-${name}`}
+                />
+              )}
+            </div>
+          ))}
+
+          {!canEdit && (
+            <div className="space-y-1">
+              <Label htmlFor="concert-edit-note">Note for reviewers (optional)</Label>
+              <Textarea
+                id="concert-edit-note"
+                value={note}
+                placeholder="Where did you find the correct details?"
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                maxLength={500}
+                className="resize-none"
+                data-testid="textarea-concert-edit-note"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-concert-edit">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasChanges || missingRequired || saveMutation.isPending}
+            data-testid="button-save-concert-edit"
+          >
+            {saveMutation.isPending ? "Saving..." : canEdit ? "Save changes" : "Suggest edit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { concertFieldLabels } from "@/components/concert-edit-dialog";
+import { Check, History, RotateCcw, X } from "lucide-react";
+import type { ConcertEditProposalWithUser, ConcertFieldChanges, ConcertRevisionWithUser } from "@shared/schema";
+
+type Person = ConcertRevisionWithUser['editor'];
+
+const getName = (person: Person) => {
+  if (!person) return "Deleted user";
+  return `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.username || "Unknown user";
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+function ChangeList({ changes }: { changes: ConcertFieldChanges }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {Object.entries(changes).map(([field, { from, to }]) => (
+        <li key={field} className="break-words">
+          <span className="font-medium">{concertFieldLabels[field] || field}:</span>{' '}
+          <span className="text-muted-foreground line-through">{formatValue(from)}</span>
+          {' → '}
+          <span>{formatValue(to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ConcertHistoryProps {
+  concertId: string;
+  canEdit: boolean;
+}
+
+export function ConcertHistory({ concertId, canEdit }: ConcertHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: proposals = [] } = useQuery<ConcertEditProposalWithUser[]>({
+    queryKey: ["/api/concerts", concertId, "proposals"],
+  });
+
+  const { data: revisions = [] } = useQuery<ConcertRevisionWithUser[]>({
+    queryKey: ["/api/concerts", concertId, "revisions"],
+  });
+
+  const pendingProposals = proposals.filter(proposal => proposal.status === "pending");
+
+  // Accepting or reverting changes the concert itself, so refresh it along with the history
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/concerts", concertId] });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ proposalId, accept }: { proposalId: string; accept: boolean }) =>
+      apiRequest("POST", `/api/concerts/${concertId}/proposals/${proposalId}/${accept ? "accept" : "reject"}`),
+    onSuccess: (_, { accept }) => {
+      refresh();
+      toast({ title: accept ? "Edit applied" : "Edit rejected" });
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "Someone already reviewed this suggestion"
+          : "Failed to review the suggestion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (revisionId: string) =>
+      apiRequest("POST", `/api/concerts/${concertId}/revisions/${revisionId}/revert`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Edit reverted" });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revert the edit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (pendingProposals.length === 0 && revisions.length === 0) return null;
+
+  const isPending = reviewMutation.isPending || revertMutation.isPending;
+
+  return (
+    <Card data-testid="card-concert-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Edit History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {pendingProposals.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              Suggested edits
+            </h3>
+            {pendingProposals.map((proposal) => (
+              <div key={proposal.id} className="rounded-lg border p-3 space-y-2" data-testid={`proposal-${proposal.id}`}>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">{getName(proposal.proposer)}</span>
+                  {proposal.createdAt && (
+                    <span className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(proposal.createdAt), { addSuffix: true })}
+                    </span>
+                  )}
+                  <Badge variant="outline">Pending</Badge>
+                </div>
+                <ChangeList changes={proposal.changes} />
+                {proposal.note && (
+                  <p className="text-sm italic text-muted-foreground">"{proposal.note}"</p>
+                )}
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ proposalId: proposal.id, accept: true })}
+                      disabled={isPending}
+                      data-testid={`button-accept-proposal-${proposal.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => reviewMutation.mutate({ proposalId: proposal.id, accept: false })}
+                      disabled={isPending}
+                      data-testid={`button-reject-proposal-${proposal.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              Changes
+            </h3>
+            {revisions.map((revision) => (
+              <div key={revision.id} className="rounded-lg border p-3 space-y-2" data-testid={`revision-${revision.id}`}>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">{getName(revision.editor)}</span>
+                  {revision.createdAt && (
+                    <span className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </span>
+                  )}
+                  {revision.proposalId && <Badge variant="secondary">Suggested edit</Badge>}
+                  {revision.revertOf && <Badge variant="secondary">Revert</Badge>}
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto"
+                      onClick={() => revertMutation.mutate(revision.id)}
+                      disabled={isPending}
+                      data-testid={`button-revert-revision-${revision.id}`}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                <ChangeList changes={revision.changes} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
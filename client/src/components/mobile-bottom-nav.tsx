@@ -1,6 +1,7 @@
-import { Compass, Users, User, UserSearch, Plus } from "lucide-react";
+import { Compass, Users, User, UserSearch, Plus, Bell } from "lucide-react";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useUnreadNotificationsCount, formatUnreadCount } from "@/hooks/use-notifications";
 
 const leftNavigationItems = [
   {
@@ -21,6 +22,12 @@ const rightNavigationItems = [
     url: "/discover",
     icon: Compass,
   },
+  {
+    title: "Alerts",
+    url: "/notifications",
+    icon: Bell,
+    showUnreadBadge: true,
+  },
   {
     title: "Profile",
     url: "/profile", 
@@ -34,6 +41,7 @@ interface MobileBottomNavProps {
 
 export function MobileBottomNav({ onCreateReview }: MobileBottomNavProps) {
   const [location, navigate] = useLocation();
+  const unreadCount = useUnreadNotificationsCount();
 
   const handleNavigation = (url: string) => {
     navigate(url);
@@ -99,7 +107,17 @@ export function MobileBottomNav({ onCreateReview }: MobileBottomNavProps) {
                 )}
                 data-testid={`tab-${item.title.toLowerCase().replace(' ', '-')}`}
               >
-                <item.icon className={cn("h-5 w-5 mb-1", isActive && "text-primary")} />
+                <div className="relative">
+                  <item.icon className={cn("h-5 w-5 mb-1", isActive && "text-primary")} />
+                  {item.showUnreadBadge && unreadCount > 0 && (
+                    <span
+                      className="absolute -top-1.5 -right-2.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold leading-4 text-center"
+                      data-testid="badge-unread-notifications-mobile"
+                    >
+                      {formatUnreadCount(unreadCount)}
+                    </span>
+                  )}
+                </div>
                 <span className="text-xs font-medium">{item.title}</span>
               </button>
             );
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReportTargetType } from "@shared/schema";
+
+const reasonOptions = [
+  { value: "spam", label: "Spam or advertising" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "hate", label: "Hate speech" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "misinformation", label: "False or misleading" },
+  { value: "other", label: "Something else" },
+];
+
+const targetLabels: Record<ReportTargetType, string> = {
+  review: "review",
+  comment: "comment",
+  user: "profile",
+};
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+export function ReportDialog({ open, onOpenChange, targetType, targetId }: ReportDialogProps) {
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const { toast } = useToast();
+
+  const close = () => {
+    setReason("");
+    setDetails("");
+    onOpenChange(false);
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', '/api/reports', {
+        targetType,
+        targetId,
+        reason,
+        details: details.trim() || null,
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. A moderator will take a look.",
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      const alreadyReported = error.message.startsWith('409');
+      toast({
+        title: alreadyReported ? "Already reported" : "Failed to send report",
+        description: alreadyReported
+          ? `You've already reported this ${targetLabels[targetType]}.`
+          : "Something went wrong. Please try again.",
+        variant: alreadyReported ? "default" : "destructive",
+      });
+      if (alreadyReported) close();
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md" data-testid={`dialog-report-${targetType}`}>
+        <DialogHeader>
+          <DialogTitle>Report {targetLabels[targetType]}</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous. Content that gets several reports is hidden until a moderator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={setReason} className="space-y-1">
+          {reasonOptions.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <RadioGroupItem
+                value={option.value}
+                id={`report-reason-${option.value}`}
+                data-testid={`radio-report-reason-${option.value}`}
+              />
+              <Label htmlFor={`report-reason-${option.value}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          placeholder="Anything else a moderator should know? (optional)"
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          className="resize-none"
+          rows={3}
+          maxLength={1000}
+          data-testid="textarea-report-details"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} data-testid="button-cancel-report">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            {reportMutation.isPending ? "Sending..." : "Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { Star, Heart, MessageCircle, Calendar, MapPin, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { Star, Heart, MessageCircle, Calendar, MapPin, MoreVertical, Pencil, Trash2, Flag } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -11,6 +11,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { CommentDialog } from "./comment-dialog";
+import { ReportDialog } from "./report-dialog";
+import { ReviewRevisionsDialog } from "./review-revisions-dialog";
 
 interface ReviewCardProps {
   id: string;
@@ -39,6 +41,7 @@ interface ReviewCardProps {
   comments: number;
   isLiked?: boolean;
   postedAt: string;
+  editedAt?: Date | string | null; // Set once the ratings or text have changed
   onEdit?: () => void; // Callback for edit action
 }
 
@@ -54,10 +57,13 @@ export default function ReviewCard({
   comments: initialComments,
   isLiked: initialIsLiked = false,
   postedAt,
+  editedAt,
   onEdit,
 }: ReviewCardProps) {
   const [commentDialogOpen, setCommentDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
+  const [revisionsDialogOpen, setRevisionsDialogOpen] = useState(false);
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
@@ -221,10 +227,23 @@ export default function ReviewCard({
                 {renderStars(rating.overall)}
                 <span className="text-sm font-medium ml-1.5 flex-shrink-0">{rating.overall.toFixed(1)}</span>
               </div>
-              <p className="text-xs text-muted-foreground whitespace-nowrap">{postedAt}</p>
+              <p className="text-xs text-muted-foreground whitespace-nowrap">
+                {postedAt}
+                {editedAt && (
+                  <Badge
+                    variant="outline"
+                    className="ml-1.5 px-1.5 py-0 text-[10px] font-normal cursor-pointer"
+                    onClick={() => setRevisionsDialogOpen(true)}
+                    title={`Edited ${new Date(editedAt).toLocaleString()}`}
+                    data-testid={`badge-edited-${id}`}
+                  >
+                    edited
+                  </Badge>
+                )}
+              </p>
             </div>
-            {/* Edit/Delete menu for review owner */}
-            {isOwner && (
+            {/* Edit/Delete for the review owner, Report for everyone else */}
+            {currentUser && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button 
@@ -237,23 +256,35 @@ export default function ReviewCard({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  {onEdit && (
-                    <DropdownMenuItem 
-                      onClick={onEdit}
-                      data-testid={`button-edit-review-${id}`}
+                  {isOwner ? (
+                    <>
+                      {onEdit && (
+                        <DropdownMenuItem 
+                          onClick={onEdit}
+                          data-testid={`button-edit-review-${id}`}
+                        >
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit Review
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem 
+                        onClick={handleDelete}
+                        className="text-destructive"
+                        data-testid={`button-delete-review-${id}`}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete Review
+                      </DropdownMenuItem>
+                    </>
+                  ) : (
+                    <DropdownMenuItem
+                      onClick={() => setReportDialogOpen(true)}
+                      data-testid={`button-report-review-${id}`}
                     >
-                      <Pencil className="h-4 w-4 mr-2" />
-                      Edit Review
+                      <Flag className="h-4 w-4 mr-2" />
+                      Report
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem 
-                    onClick={handleDelete}
-                    className="text-destructive"
-                    data-testid={`button-delete-review-${id}`}
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Review
-                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -363,8 +394,24 @@ export default function ReviewCard({
       reviewId={id}
       reviewTitle={`Review by ${user.name}`}
     />
+
+    <ReportDialog
+      open={reportDialogOpen}
+      onOpenChange={setReportDialogOpen}
+      targetType="review"
+      targetId={id}
+    />
     
     {/* Delete confirmation dialog */}
+    {editedAt && (
+      <ReviewRevisionsDialog
+        open={revisionsDialogOpen}
+        onOpenChange={setRevisionsDialogOpen}
+        reviewId={id}
+        currentRating={rating.overall}
+      />
+    )}
+
     <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
       <AlertDialogContent data-testid="dialog-delete-review-confirm">
         <AlertDialogHeader>
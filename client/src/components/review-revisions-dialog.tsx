@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Star } from "lucide-react";
+import type { ReviewRevision } from "@shared/schema";
+
+const ratingLabels = [
+  { field: "performanceRating", label: "Performance" },
+  { field: "soundRating", label: "Sound" },
+  { field: "venueRating", label: "Venue" },
+  { field: "valueRating", label: "Value" },
+] as const;
+
+interface ReviewRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reviewId: string;
+  currentRating: number;
+}
+
+export function ReviewRevisionsDialog({ open, onOpenChange, reviewId, currentRating }: ReviewRevisionsDialogProps) {
+  const { data: revisions = [], isLoading } = useQuery<ReviewRevision[]>({
+    queryKey: ["/api/reviews", reviewId, "revisions"],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto" data-testid={`dialog-review-revisions-${reviewId}`}>
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this review, newest first. It's currently rated {currentRating} out of 5.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-20 w-full" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="rounded-lg border p-3 space-y-2" data-testid={`review-revision-${revision.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1 text-sm font-medium">
+                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                    {revision.overallRating}
+                    {revision.overallRating !== currentRating && (
+                      <span className="text-muted-foreground font-normal"> (now {currentRating})</span>
+                    )}
+                  </div>
+                  {revision.createdAt && (
+                    <span className="text-xs text-muted-foreground">
+                      Changed {format(new Date(revision.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {ratingLabels.map(({ field, label }) => `${label} ${revision[field]}`).join(" · ")}
+                </p>
+                <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{revision.reviewText}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
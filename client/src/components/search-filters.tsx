@@ -1,4 +1,4 @@
-import { Search, Filter, MapPin, Calendar, CalendarDays, X } from "lucide-react";
+import { Search, Filter, MapPin, Calendar, CalendarDays, X, LocateFixed, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,6 +9,13 @@ import { Slider } from "@/components/ui/slider";
 import { useState } from "react";
 import { format } from "date-fns";
 import type { DateRange } from "react-day-picker";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+// near is "lat,lon" from the browser, or "me" for the profile location
+export type NearFilter = { near: string; radiusKm: number };
+
+const radiusOptions = [10, 25, 50, 100, 250];
 
 interface SearchFiltersProps {
   onSearch?: (query: string) => void;
@@ -16,6 +23,7 @@ interface SearchFiltersProps {
   onGenreChange?: (genre: string) => void;
   onDateRange?: (dateRange: { startDate?: string; endDate?: string } | null) => void;
   onPriceRange?: (priceRange: [number, number]) => void;
+  onNearChange?: (near: NearFilter | null) => void;
 }
 
 export default function SearchFilters({
@@ -24,12 +32,17 @@ export default function SearchFilters({
   onGenreChange,
   onDateRange,
   onPriceRange,
+  onNearChange,
 }: SearchFiltersProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [priceRange, setPriceRange] = useState([0, 200]);
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [nearFilter, setNearFilter] = useState<NearFilter | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
   
   // Get today's date for disabling past dates
   const today = new Date();
@@ -72,6 +85,55 @@ export default function SearchFilters({
     setIsDatePickerOpen(false);
   };
 
+  const applyNearFilter = (filter: NearFilter | null) => {
+    setNearFilter(filter);
+    onNearChange?.(filter);
+  };
+
+  // Prefer the browser's position; fall back to the location saved on the profile
+  const handleNearMeToggle = () => {
+    if (nearFilter) {
+      applyNearFilter(null);
+      return;
+    }
+
+    const radiusKm = radiusOptions[2];
+    const fallBackToProfileLocation = () => {
+      if (user?.location) {
+        applyNearFilter({ near: "me", radiusKm });
+        toast({
+          title: "Using your profile location",
+          description: `Showing concerts near ${user.location}`,
+        });
+      } else {
+        toast({
+          title: "Location unavailable",
+          description: "Allow location access or add a location to your profile",
+          variant: "destructive",
+        });
+      }
+    };
+
+    if (!navigator.geolocation) {
+      fallBackToProfileLocation();
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        const { latitude, longitude } = position.coords;
+        applyNearFilter({ near: `${latitude.toFixed(4)},${longitude.toFixed(4)}`, radiusKm });
+      },
+      () => {
+        setIsLocating(false);
+        fallBackToProfileLocation();
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
   const getDateRangeDisplayText = () => {
     if (!dateRange?.from) return "Select dates";
     if (!dateRange.to) return format(dateRange.from, 'MMM d, yyyy');
@@ -121,6 +183,36 @@ export default function SearchFilters({
           </SelectContent>
         </Select>
 
+        <Button
+          variant={nearFilter ? "default" : "outline"}
+          onClick={handleNearMeToggle}
+          disabled={isLocating}
+          data-testid="button-near-me"
+        >
+          {isLocating ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <LocateFixed className="h-4 w-4 mr-2" />
+          )}
+          Near me
+        </Button>
+
+        {nearFilter && (
+          <Select
+            value={String(nearFilter.radiusKm)}
+            onValueChange={(value) => applyNearFilter({ ...nearFilter, radiusKm: Number(value) })}
+          >
+            <SelectTrigger className="w-[120px]" data-testid="select-radius">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {radiusOptions.map(radius => (
+                <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         <Select onValueChange={handleGenreChange}>
           <SelectTrigger className="w-[140px]" data-testid="select-genre">
             <SelectValue placeholder="Genre" />
@@ -221,6 +313,7 @@ export default function SearchFilters({
                   className="flex-1"
                   onClick={() => {
                     setPriceRange([0, 200]);
+                    onPriceRange?.([0, 200]);
                     console.log('Filters cleared');
                   }}
                   data-testid="button-clear-filters"
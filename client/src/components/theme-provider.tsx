@@ -1,4 +1,8 @@
 import { createContext, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { UserSettings } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 type Theme = "dark" | "light" | "system";
 
@@ -20,16 +24,34 @@ const initialState: ThemeProviderState = {
 
 const ThemeProviderContext = createContext<ThemeProviderState>(initialState);
 
+const isTheme = (value: unknown): value is Theme =>
+  value === "light" || value === "dark" || value === "system";
+
 export function ThemeProvider({
   children,
   defaultTheme = "system",
   storageKey = "vite-ui-theme",
   ...props
 }: ThemeProviderProps) {
+  const { user } = useAuth();
   const [theme, setTheme] = useState<Theme>(
     () => (localStorage.getItem(storageKey) as Theme) || defaultTheme
   );
 
+  // The saved theme follows the user across devices; localStorage only
+  // covers the first paint and signed-out pages
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/users/me/settings"],
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (isTheme(settings?.theme)) {
+      localStorage.setItem(storageKey, settings.theme);
+      setTheme(settings.theme);
+    }
+  }, [settings?.theme, storageKey]);
+
   useEffect(() => {
     const root = window.document.documentElement;
 
@@ -53,6 +75,17 @@ export function ThemeProvider({
     setTheme: (theme: Theme) => {
       localStorage.setItem(storageKey, theme);
       setTheme(theme);
+
+      if (user) {
+        apiRequest("PUT", "/api/users/me/settings", { theme })
+          .then((res) => res.json())
+          .then((updated: UserSettings) => {
+            queryClient.setQueryData(["/api/users/me/settings"], updated);
+          })
+          .catch((error) => {
+            console.error("Failed to save theme preference:", error);
+          });
+      }
     },
   };
 
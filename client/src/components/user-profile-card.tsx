@@ -1,9 +1,10 @@
-import { Calendar, MapPin, Music, Users, PenTool, Star } from "lucide-react";
+import { Calendar, MapPin, Music, Users, PenTool, Star, Flag } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
+import { ReportDialog } from "./report-dialog";
 
 interface UserProfileCardProps {
   user: {
@@ -40,6 +41,7 @@ export default function UserProfileCard({
 }: UserProfileCardProps) {
   const [followingState, setFollowingState] = useState(isFollowing);
   const [followersCount, setFollowersCount] = useState(stats.followers);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
 
   const handleFollow = () => {
     if (!isCurrentUser) {
@@ -212,10 +214,28 @@ export default function UserProfileCard({
               >
                 <PenTool className="h-4 w-4" />
               </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setReportDialogOpen(true)}
+                aria-label="Report profile"
+                data-testid={`button-report-${user.username}`}
+              >
+                <Flag className="h-4 w-4" />
+              </Button>
             </>
           )}
         </div>
       </CardContent>
+
+      {!isCurrentUser && (
+        <ReportDialog
+          open={reportDialogOpen}
+          onOpenChange={setReportDialogOpen}
+          targetType="user"
+          targetId={user.id}
+        />
+      )}
     </Card>
   );
 }
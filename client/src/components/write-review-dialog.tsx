@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -12,12 +12,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, Search, Star, X, Music, MapPin, Calendar, Clock, History, Upload, Image as ImageIcon, Video, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, Search, Star, X, Music, MapPin, Calendar, Clock, History, Upload, Image as ImageIcon, Video, Trash2, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { insertReviewSchema } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import type { Concert, ConcertWithRating } from "@shared/schema";
+import type { ActRating, Concert, ConcertActWithRating, ConcertWithRating, InsertReviewDraft, ReviewDraft } from "@shared/schema";
 
 // Extended form schema that includes concert search
 const writeReviewSchema = insertReviewSchema.omit({
@@ -28,6 +29,50 @@ const writeReviewSchema = insertReviewSchema.omit({
 
 type WriteReviewFormData = z.infer<typeof writeReviewSchema>;
 
+// Festival acts can play more than one day, so ratings are keyed by name and day
+const actKey = (act: { name: string; day?: string | null }) => `${act.name}|${act.day ?? ""}`;
+
+// Drafts save this long after the last change
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+// Draft act ratings come from the rating state directly, so they survive
+// even before the concert's lineup has loaded
+const actRatingsFromState = (ratings: Record<string, number>): ActRating[] =>
+  Object.entries(ratings)
+    .filter(([, rating]) => rating > 0)
+    .map(([key, rating]) => {
+      const separator = key.lastIndexOf("|");
+      return { actName: key.slice(0, separator), day: key.slice(separator + 1) || null, rating };
+    });
+
+// Fixed key order, so payloads can be compared to skip saves that change nothing
+const buildDraftPayload = (
+  concert: ConcertWithRating,
+  values: Pick<WriteReviewFormData, 'overallRating' | 'performanceRating' | 'soundRating' | 'venueRating' | 'valueRating' | 'reviewText'>,
+  photos: string[],
+  actRatings: Record<string, number>,
+): InsertReviewDraft => ({
+  concertId: concert.id,
+  concert,
+  overallRating: values.overallRating,
+  performanceRating: values.performanceRating,
+  soundRating: values.soundRating,
+  venueRating: values.venueRating,
+  valueRating: values.valueRating,
+  reviewText: values.reviewText,
+  photos,
+  actRatings: actRatingsFromState(actRatings),
+});
+
+const isBlankDraft = (draft: InsertReviewDraft) =>
+  !draft.reviewText.trim() &&
+  draft.photos.length === 0 &&
+  draft.actRatings.length === 0 &&
+  [draft.overallRating, draft.performanceRating, draft.soundRating, draft.venueRating, draft.valueRating].every(rating => rating === 5);
+
+const formatFestivalDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
+
 interface WriteReviewDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -40,6 +85,11 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
   const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [editModeConcertId, setEditModeConcertId] = useState<string | null>(null); // Store concertId for edit mode
+  const [actRatings, setActRatings] = useState<Record<string, number>>({});
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [formVersion, setFormVersion] = useState(0); // Bumped on every form change to schedule an autosave
+  const lastSavedDraftRef = useRef<string | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -76,6 +126,19 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
     enabled: concertSearchQuery.length > 2,
   });
 
+  // Multi-act shows get an extra rating per act
+  const lineupConcertId = selectedConcert?.id ?? editModeConcertId;
+  const { data: lineup = [] } = useQuery<ConcertActWithRating[]>({
+    queryKey: ['/api/concerts', lineupConcertId, 'lineup'],
+    enabled: open && !!lineupConcertId,
+  });
+
+  // Unfinished reviews, offered for resuming when starting a new one
+  const { data: drafts = [] } = useQuery<ReviewDraft[]>({
+    queryKey: ['/api/reviews/drafts'],
+    enabled: open && !isEditMode && !!user,
+  });
+
   const form = useForm<WriteReviewFormData>({
     resolver: zodResolver(writeReviewSchema),
     defaultValues: {
@@ -117,6 +180,9 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
       
       // Set uploaded files for display
       setUploadedFiles(existingReview.photos ?? []);
+      setActRatings(Object.fromEntries(
+        (existingReview.actRatings ?? []).map((rating: ActRating) => [actKey({ name: rating.actName, day: rating.day }), rating.rating])
+      ));
     } else if (!open) {
       // Reset when dialog closes
       form.reset({
@@ -134,11 +200,21 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
       setUploadedFiles([]);
       setConcertSearchQuery("");
       setEditModeConcertId(null);
+      setActRatings({});
+      setDraftId(null);
+      setDraftSavedAt(null);
+      lastSavedDraftRef.current = null;
+      saveReviewMutation.reset();
     }
   }, [isEditMode, existingReview, open, isLoadingReview]);
 
+  useEffect(() => {
+    const subscription = form.watch(() => setFormVersion(version => version + 1));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
   const saveReviewMutation = useMutation({
-    mutationFn: async (data: Omit<WriteReviewFormData, 'concertSearch'> & { concert?: any }) => {
+    mutationFn: async (data: Omit<WriteReviewFormData, 'concertSearch'> & { concert?: any; actRatings?: ActRating[] }) => {
       if (isEditMode && editingReviewId) {
         // Update existing review
         const response = await apiRequest('PUT', `/api/reviews/${editingReviewId}`, data);
@@ -157,6 +233,7 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
       
       // Invalidate and refetch all relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews/drafts'] }); // Publishing removes the draft
       
       // Invalidate user-specific queries if we have a user ID
       if (user?.id) {
@@ -187,6 +264,115 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
     },
   });
 
+  const saveDraftMutation = useMutation({
+    mutationFn: async (draft: InsertReviewDraft) => {
+      const response = await apiRequest('PUT', '/api/reviews/drafts', draft);
+      return response.json() as Promise<ReviewDraft>;
+    },
+    onSuccess: (draft, saved) => {
+      // The form may have moved on to another concert, or closed, while this was saving
+      if (lastSavedDraftRef.current === JSON.stringify(saved)) {
+        setDraftId(draft.id);
+        setDraftSavedAt(new Date());
+      }
+      queryClient.setQueryData<ReviewDraft[]>(['/api/reviews/drafts'], (current = []) =>
+        [draft, ...current.filter(existing => existing.id !== draft.id)]
+      );
+    },
+    onError: () => {
+      // Try again on the next change
+      lastSavedDraftRef.current = null;
+    },
+  });
+
+  const discardDraftMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/reviews/drafts/${id}`),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<ReviewDraft[]>(['/api/reviews/drafts'], (current = []) =>
+        current.filter(draft => draft.id !== id)
+      );
+      if (id === draftId) {
+        form.reset({
+          concertId: "",
+          overallRating: 5,
+          performanceRating: 5,
+          soundRating: 5,
+          venueRating: 5,
+          valueRating: 5,
+          reviewText: "",
+          photos: [],
+          concertSearch: "",
+        });
+        setSelectedConcert(null);
+        setUploadedFiles([]);
+        setActRatings({});
+        setDraftId(null);
+        setDraftSavedAt(null);
+        lastSavedDraftRef.current = null;
+      }
+      toast({
+        title: "Draft discarded",
+        description: "The draft and its uploaded photos have been deleted.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to discard draft",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Drafts are for new reviews only; edits save straight to the published review
+  const canSaveDraft = open && !isEditMode && !!selectedConcert && !saveReviewMutation.isPending && !saveReviewMutation.isSuccess;
+
+  const saveDraft = () => {
+    if (!canSaveDraft || !selectedConcert) return;
+    const draft = buildDraftPayload(selectedConcert, form.getValues(), uploadedFiles, actRatings);
+    const serialized = JSON.stringify(draft);
+    if (serialized === lastSavedDraftRef.current || (!draftId && isBlankDraft(draft))) return;
+    lastSavedDraftRef.current = serialized;
+    saveDraftMutation.mutate(draft);
+  };
+
+  useEffect(() => {
+    if (!canSaveDraft) return;
+    const timer = setTimeout(saveDraft, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formVersion, uploadedFiles, actRatings, canSaveDraft]);
+
+  const resumeDraft = (draft: ReviewDraft) => {
+    const concert = draft.concert as unknown as ConcertWithRating;
+    const draftActRatings = Object.fromEntries(
+      draft.actRatings.map(rating => [actKey({ name: rating.actName, day: rating.day }), rating.rating])
+    );
+    setSelectedConcert(concert);
+    form.reset({
+      concertId: concert.id,
+      overallRating: draft.overallRating,
+      performanceRating: draft.performanceRating,
+      soundRating: draft.soundRating,
+      venueRating: draft.venueRating,
+      valueRating: draft.valueRating,
+      reviewText: draft.reviewText,
+      photos: draft.photos,
+      concertSearch: "",
+    });
+    setUploadedFiles(draft.photos);
+    setActRatings(draftActRatings);
+    setConcertSearchQuery("");
+    setDraftId(draft.id);
+    setDraftSavedAt(draft.updatedAt ? new Date(draft.updatedAt) : null);
+    lastSavedDraftRef.current = JSON.stringify(buildDraftPayload(concert, draft, draft.photos, draftActRatings));
+  };
+
+  // Closing keeps the draft, so save anything the debounce hasn't caught yet
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) saveDraft();
+    onOpenChange(nextOpen);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
@@ -266,12 +452,16 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
       concertId: reviewData.concertId
     });
     
+    const ratedActs: ActRating[] = lineup
+      .filter(act => actRatings[actKey(act)])
+      .map(act => ({ actName: act.name, day: act.day, rating: actRatings[actKey(act)] }));
+
     // In edit mode, only send the review data (concertId is already in reviewData)
     // In create mode, also send the concert object for upsert
     saveReviewMutation.mutate(
       isEditMode 
-        ? reviewData  // Edit: just send review data, concertId already included
-        : { ...reviewData, concertId: selectedConcert!.id, concert: selectedConcert } // Create: send concert for upsert
+        ? { ...reviewData, actRatings: ratedActs }  // Edit: just send review data, concertId already included
+        : { ...reviewData, concertId: selectedConcert!.id, concert: selectedConcert, actRatings: ratedActs } // Create: send concert for upsert
     );
   };
 
@@ -309,14 +499,24 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
   };
 
   const selectConcert = (concert: ConcertWithRating) => {
+    const existingDraft = drafts.find(draft => draft.concertId === concert.id);
+    if (existingDraft) {
+      resumeDraft(existingDraft);
+      return;
+    }
     setSelectedConcert(concert);
     form.setValue('concertId', concert.id);
     setConcertSearchQuery("");
   };
 
   const clearSelectedConcert = () => {
+    saveDraft();
     setSelectedConcert(null);
     form.setValue('concertId', "");
+    setActRatings({});
+    setDraftId(null);
+    setDraftSavedAt(null);
+    lastSavedDraftRef.current = null;
   };
 
   // Pre-populate form with existing review data in edit mode
@@ -348,7 +548,7 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
   }, [existingReview, isEditMode, open, form]);
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-write-review">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -425,6 +625,46 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
                   </Card>
                 ) : (
                 <div className="space-y-3">
+                  {!isEditMode && drafts.length > 0 && (
+                    <div className="space-y-2" data-testid="section-review-drafts">
+                      {drafts.map((draft) => (
+                        <Card
+                          key={draft.id}
+                          className="cursor-pointer hover:bg-accent transition-colors"
+                          onClick={() => resumeDraft(draft)}
+                          data-testid={`button-resume-draft-${draft.id}`}
+                        >
+                          <CardContent className="p-3 flex items-center justify-between gap-3">
+                            <div className="flex items-start gap-3 min-w-0">
+                              <FileText className="h-4 w-4 mt-1 text-primary flex-shrink-0" />
+                              <div className="space-y-1 min-w-0">
+                                <h5 className="font-medium truncate">Resume draft: {draft.concert.artist}</h5>
+                                <p className="text-sm text-muted-foreground truncate">
+                                  {draft.concert.venue}, {draft.concert.city}
+                                  {draft.updatedAt && ` · saved ${formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}`}
+                                </p>
+                              </div>
+                            </div>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                discardDraftMutation.mutate(draft.id);
+                              }}
+                              disabled={discardDraftMutation.isPending}
+                              aria-label="Discard draft"
+                              data-testid={`button-discard-draft-${draft.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
@@ -578,6 +818,29 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
                   />
                 </div>
               </div>
+
+              {lineup.length > 1 && (
+                <div data-testid="section-rate-lineup">
+                  <h3 className="font-semibold">Rate the Lineup</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Optional - rate the acts you saw.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {lineup.map((act) => (
+                      <div key={actKey(act)}>
+                        {renderStarRating(
+                          actRatings[actKey(act)] ?? 0,
+                          (value) => setActRatings(prev => ({ ...prev, [actKey(act)]: value })),
+                          act.day ? `${act.name} (${formatFestivalDay(act.day)})` : act.name
+                        )}
+                        {act.role === "headliner" && (
+                          <Badge variant="secondary" className="text-xs mt-1">Headliner</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Review Text */}
@@ -663,10 +926,28 @@ export function WriteReviewDialog({ open, onOpenChange, editingReviewId }: Write
             </div>
 
             <DialogFooter className="gap-3">
+              {!isEditMode && (saveDraftMutation.isPending || draftSavedAt) && (
+                <span className="text-xs text-muted-foreground self-center sm:mr-auto" data-testid="text-draft-status">
+                  {saveDraftMutation.isPending
+                    ? "Saving draft..."
+                    : `Draft saved at ${format(draftSavedAt!, "h:mm a")}`}
+                </span>
+              )}
+              {!isEditMode && draftId && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => discardDraftMutation.mutate(draftId)}
+                  disabled={discardDraftMutation.isPending || saveReviewMutation.isPending}
+                  data-testid="button-discard-draft"
+                >
+                  Discard draft
+                </Button>
+              )}
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => onOpenChange(false)}
+                onClick={() => handleOpenChange(false)}
                 data-testid="button-cancel-review"
               >
                 Cancel
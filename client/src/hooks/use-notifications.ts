@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+
+// Poll frequently enough for badges to feel live without hammering the API
+const UNREAD_POLL_INTERVAL = 30 * 1000;
+
+export function useUnreadNotificationsCount() {
+  const { user } = useAuth();
+
+  const { data } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    enabled: !!user,
+    refetchInterval: UNREAD_POLL_INTERVAL,
+  });
+
+  return data?.count ?? 0;
+}
+
+export function formatUnreadCount(count: number) {
+  return count > 99 ? "99+" : String(count);
+}
@@ -0,0 +1,291 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ConcertCard from "@/components/concert-card";
+import ReviewCard from "@/components/review-card";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Music, Star, Users, Calendar, UserPlus, UserCheck } from "lucide-react";
+import type { ArtistWithStats, ConcertWithRating, ReviewWithUser, CategoryRatings } from "@shared/schema";
+
+const categoryLabels: Array<{ key: keyof CategoryRatings; label: string }> = [
+  { key: "overall", label: "Overall" },
+  { key: "performance", label: "Performance" },
+  { key: "sound", label: "Sound" },
+  { key: "venue", label: "Venue" },
+  { key: "value", label: "Value" },
+];
+
+const transformConcertForCard = (concert: ConcertWithRating) => ({
+  id: concert.id,
+  artist: concert.artist,
+  venue: concert.venue,
+  date: concert.date,
+  time: concert.time,
+  city: concert.city,
+  price: concert.price,
+  genre: concert.genre || undefined,
+  imageUrl: concert.imageUrl || undefined,
+  rating: concert.averageRating,
+  ticketUrl: concert.ticketUrl || undefined,
+});
+
+const transformReviewForCard = (review: ReviewWithUser) => ({
+  id: review.id,
+  userId: review.userId,
+  user: {
+    name: `${review.user.firstName || ''} ${review.user.lastName || ''}`.trim() || 'Anonymous',
+    username: review.user.username || 'anonymous',
+    avatar: review.user.profileImageUrl || undefined
+  },
+  concert: {
+    artist: review.concert.artist,
+    venue: review.concert.venue,
+    date: new Date(review.concert.date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    }),
+    city: review.concert.city
+  },
+  rating: {
+    overall: review.overallRating,
+    performance: review.performanceRating,
+    sound: review.soundRating,
+    venue: review.venueRating,
+    value: review.valueRating
+  },
+  reviewText: review.reviewText,
+  photos: review.photos || [],
+  likes: review.likesCount || 0,
+  comments: review.commentsCount || 0,
+  isLiked: review.isLiked || false,
+  postedAt: review.createdAt ? new Date(review.createdAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric'
+  }) : 'Unknown',
+  editedAt: review.editedAt
+});
+
+export default function ArtistDetail() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: artist, isLoading: artistLoading } = useQuery<ArtistWithStats>({
+    queryKey: ["/api/artists", id],
+    enabled: !!id,
+  });
+
+  const { data: concerts = [], isLoading: concertsLoading } = useQuery<ConcertWithRating[]>({
+    queryKey: ["/api/artists", id, "concerts"],
+    enabled: !!id,
+  });
+
+  const { data: topReviews = [], isLoading: reviewsLoading } = useQuery<ReviewWithUser[]>({
+    queryKey: ["/api/artists", id, "reviews"],
+    enabled: !!id,
+  });
+
+  const followMutation = useMutation({
+    mutationFn: () =>
+      artist?.isFollowing
+        ? apiRequest("DELETE", `/api/artists/${id}/follow`)
+        : apiRequest("POST", `/api/artists/${id}/follow`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/artists", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
+      toast({
+        title: artist?.isFollowing ? "Unfollowed" : "Following",
+        description: artist?.isFollowing
+          ? `You unfollowed ${artist?.name}`
+          : `You'll hear about new ${artist?.name} shows`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update artist follow",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (artistLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-12 w-1/2" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!artist) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Music className="h-16 w-16 text-muted-foreground mb-4" />
+        <h2 className="text-2xl font-semibold mb-2">Artist not found</h2>
+        <p className="text-muted-foreground mb-4">
+          We couldn't find the artist you're looking for
+        </p>
+        <Button onClick={() => navigate("/discover")} data-testid="button-back-discover">
+          Back to Discover
+        </Button>
+      </div>
+    );
+  }
+
+  // Concert dates are stored as ISO date strings, so lexical comparison works
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingConcerts = concerts
+    .filter(concert => concert.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const pastConcerts = concerts
+    .filter(concert => concert.date < today)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const renderConcertGrid = (list: ConcertWithRating[], emptyMessage: string) => (
+    concertsLoading ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
+      </div>
+    ) : list.length > 0 ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {list.map(concert => (
+          <div key={concert.id} onClick={() => navigate(`/concerts/${concert.id}`)}>
+            <ConcertCard {...transformConcertForCard(concert)} />
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="text-center py-12 text-muted-foreground">
+        <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>{emptyMessage}</p>
+      </div>
+    )
+  );
+
+  return (
+    <div className="space-y-6" data-testid="page-artist-detail">
+      {/* Artist Header */}
+      <div className="flex flex-col md:flex-row md:items-center gap-6">
+        <div className="h-32 w-32 rounded-full overflow-hidden bg-gradient-to-br from-primary/20 to-primary/40 flex items-center justify-center flex-shrink-0">
+          {artist.imageUrl ? (
+            <img src={artist.imageUrl} alt={artist.name} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-5xl font-bold text-primary/60">{artist.name.charAt(0)}</span>
+          )}
+        </div>
+        <div className="flex-1 space-y-2">
+          <h1 className="text-3xl md:text-4xl font-bold" data-testid="text-artist-name">
+            {artist.name}
+          </h1>
+          {artist.genres && artist.genres.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {artist.genres.map(genre => (
+                <Badge key={genre} variant="secondary">{genre}</Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1" data-testid="text-artist-followers">
+              <Users className="h-4 w-4" />
+              {artist.followerCount || 0} {artist.followerCount === 1 ? "follower" : "followers"}
+            </span>
+            <span className="flex items-center gap-1" data-testid="text-artist-concerts">
+              <Calendar className="h-4 w-4" />
+              {artist.concertCount || 0} {artist.concertCount === 1 ? "concert" : "concerts"}
+            </span>
+          </div>
+          {artist.bio && <p className="text-muted-foreground">{artist.bio}</p>}
+        </div>
+        <Button
+          variant={artist.isFollowing ? "outline" : "default"}
+          onClick={() => followMutation.mutate()}
+          disabled={followMutation.isPending}
+          data-testid="button-follow-artist"
+        >
+          {artist.isFollowing ? (
+            <UserCheck className="h-4 w-4 mr-2" />
+          ) : (
+            <UserPlus className="h-4 w-4 mr-2" />
+          )}
+          {artist.isFollowing ? "Following" : "Follow"}
+        </Button>
+      </div>
+
+      {/* Aggregated Ratings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Live Ratings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {artist.averageRatings ? (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {categoryLabels.map(({ key, label }) => (
+                <div key={key} className="text-center" data-testid={`rating-${key}`}>
+                  <div className="flex items-center justify-center gap-1">
+                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                    <span className="text-xl font-semibold">
+                      {artist.averageRatings![key].toFixed(1)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No reviews yet for this artist's shows.</p>
+          )}
+          {artist.reviewCount > 0 && (
+            <p className="text-sm text-muted-foreground mt-4" data-testid="text-artist-review-count">
+              Based on {artist.reviewCount} {artist.reviewCount === 1 ? "review" : "reviews"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Concerts */}
+      <Tabs defaultValue="upcoming" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="upcoming" data-testid="tab-upcoming-concerts">
+            Upcoming ({upcomingConcerts.length})
+          </TabsTrigger>
+          <TabsTrigger value="past" data-testid="tab-past-concerts">
+            Past ({pastConcerts.length})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="upcoming">
+          {renderConcertGrid(upcomingConcerts, "No upcoming shows announced")}
+        </TabsContent>
+        <TabsContent value="past">
+          {renderConcertGrid(pastConcerts, "No past shows yet")}
+        </TabsContent>
+      </Tabs>
+
+      {/* Top Reviews */}
+      <div className="space-y-4">
+        <h2 className="text-2xl font-semibold" data-testid="heading-top-reviews">Top Reviews</h2>
+        {reviewsLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : topReviews.length > 0 ? (
+          <div className="space-y-6">
+            {topReviews.map(review => (
+              <ReviewCard key={review.id} {...transformReviewForCard(review)} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground">No reviews yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
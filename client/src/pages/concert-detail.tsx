@@ -4,21 +4,36 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Calendar, MapPin, Music, Heart, Star, Clock } from "lucide-react";
+import { AlertTriangle, Calendar, CalendarPlus, MapPin, Mic2, Music, Heart, Star, Clock, ListMusic, Pencil } from "lucide-react";
 import { WriteReviewDialog } from "@/components/write-review-dialog";
-import { useState } from "react";
-import type { Concert, ReviewWithUser } from "@shared/schema";
+import { ConcertEditDialog } from "@/components/concert-edit-dialog";
+import { ConcertHistory } from "@/components/concert-history";
+import { ReviewRevisionsDialog } from "@/components/review-revisions-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useEffect, useState } from "react";
+import type { Concert, ConcertActWithRating, ReviewWithUser, Setlist } from "@shared/schema";
+
+const parseSongs = (text: string) =>
+  text.split("\n").map(song => song.trim()).filter(Boolean);
 
 export default function ConcertDetail() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [revisionsReview, setRevisionsReview] = useState<ReviewWithUser | null>(null);
+  const [isEditingSetlist, setIsEditingSetlist] = useState(false);
+  const [songsText, setSongsText] = useState("");
+  const [encoreText, setEncoreText] = useState("");
 
   // Fetch concert details - first try database, then fall back to Ticketmaster
-  const { data: concert, isLoading: concertLoading } = useQuery<Concert>({
+  const { data: concert, isLoading: concertLoading } = useQuery<Concert & { canEdit?: boolean }>({
     queryKey: ["/api/concerts", id],
     queryFn: async () => {
       // Try fetching from database first
@@ -34,18 +49,79 @@ export default function ConcertDetail() {
           return tmResponse.json();
         }
       }
+
+      // Historical Setlist.fm concerts (setlistfm_) aren't stored until someone reviews them
+      if (id?.startsWith("setlistfm_")) {
+        const setlistFmResponse = await fetch(`/api/setlistfm/events/${id.slice("setlistfm_".length)}`);
+        if (setlistFmResponse.ok) {
+          return setlistFmResponse.json();
+        }
+      }
       
       throw new Error("Concert not found");
     },
     enabled: !!id,
   });
 
+  // Ticketmaster/Setlist.fm ids resolve to the stored concert they were merged into
+  useEffect(() => {
+    if (concert?.id && id && concert.id !== id) {
+      navigate(`/concerts/${concert.id}`, { replace: true });
+    }
+  }, [concert?.id, id, navigate]);
+
+  const { data: lineup = [] } = useQuery<ConcertActWithRating[]>({
+    queryKey: ["/api/concerts", id, "lineup"],
+    enabled: !!id,
+  });
+
   // Fetch reviews for this concert
   const { data: reviews = [], isLoading: reviewsLoading } = useQuery<ReviewWithUser[]>({
     queryKey: ["/api/concerts", id, "reviews"],
     enabled: !!id,
   });
 
+  // Fetch the setlist - a missing setlist is expected, not an error
+  const { data: setlist, isLoading: setlistLoading } = useQuery<Setlist | null>({
+    queryKey: ["/api/concerts", id, "setlist"],
+    queryFn: async () => {
+      const response = await fetch(`/api/concerts/${id}/setlist`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error("Failed to fetch setlist");
+      return response.json();
+    },
+    enabled: !!id,
+  });
+
+  const saveSetlistMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/concerts/${id}/setlist`, {
+        songs: parseSongs(songsText),
+        encoreSongs: parseSongs(encoreText),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/concerts", id, "setlist"] });
+      setIsEditingSetlist(false);
+      toast({
+        title: "Setlist saved",
+        description: "Thanks for adding to the setlist",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save setlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditingSetlist = () => {
+    setSongsText((setlist?.songs || []).join("\n"));
+    setEncoreText((setlist?.encoreSongs || []).join("\n"));
+    setIsEditingSetlist(true);
+  };
+
   // Check if concert is wishlisted
   const { data: wishlist = [] } = useQuery<any[]>({
     queryKey: ["/api/wishlist"],
@@ -134,18 +210,60 @@ export default function ConcertDetail() {
     );
   }
 
+  const canEditSetlist = !setlist || (setlist.source === "user_submitted" && (!!concert.canEdit || (!!user && setlist.submittedBy === user.id)));
+  // Ticketmaster and Setlist.fm shows can't be edited until they're stored
+  const isStored = !concert.id.startsWith("tm_") && !concert.id.startsWith("setlistfm_");
+  const hasSongs = !!setlist && ((setlist.songs?.length || 0) + (setlist.encoreSongs?.length || 0)) > 0;
+
   const averageRating = reviews.length > 0
     ? reviews.reduce((sum, r) => sum + r.overallRating, 0) / reviews.length
     : 0;
 
+  // Festival lineups are grouped by day; acts without a day play the whole event
+  const lineupDays = lineup.reduce<Array<{ day: string | null; acts: ConcertActWithRating[] }>>((days, act) => {
+    const group = days.find(entry => entry.day === (act.day ?? null));
+    if (group) {
+      group.acts.push(act);
+    } else {
+      days.push({ day: act.day ?? null, acts: [act] });
+    }
+    return days;
+  }, []);
+
+  const statusNotice = concert.status === "cancelled"
+    ? { title: "This show has been cancelled", description: "Check with the ticket seller about refunds." }
+    : concert.status === "postponed"
+      ? { title: "This show has been postponed", description: "A new date hasn't been announced yet." }
+      : concert.status === "rescheduled"
+        ? { title: "This show has been rescheduled", description: "The date below is the new one." }
+        : null;
+
   return (
     <div className="space-y-6" data-testid="page-concert-detail">
+      {statusNotice && (
+        <Alert variant={concert.status === "cancelled" ? "destructive" : "default"} data-testid="alert-concert-status">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{statusNotice.title}</AlertTitle>
+          <AlertDescription>{statusNotice.description}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Concert Header */}
       <div className="space-y-4">
         <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
           <div className="space-y-2 flex-1">
             <h1 className="text-3xl md:text-4xl font-bold" data-testid="text-concert-artist">
-              {concert.artist}
+              {concert.artistId ? (
+                <span
+                  className="cursor-pointer hover:text-primary transition-colors"
+                  onClick={() => navigate(`/artists/${concert.artistId}`)}
+                  data-testid="link-artist"
+                >
+                  {concert.artist}
+                </span>
+              ) : (
+                concert.artist
+              )}
             </h1>
             {concert.genre && (
               <div className="flex flex-wrap gap-2">
@@ -165,6 +283,18 @@ export default function ConcertDetail() {
               <Heart className={`h-4 w-4 mr-2 ${isWishlisted ? "fill-current" : ""}`} />
               {isWishlisted ? "Wishlisted" : "Add to Wishlist"}
             </Button>
+            <Button asChild variant="outline" data-testid="button-add-to-calendar">
+              <a href={`/api/concerts/${encodeURIComponent(concert.id)}/calendar.ics`} download>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Add to Calendar
+              </a>
+            </Button>
+            {isStored && user && (
+              <Button variant="outline" onClick={() => setIsEditDialogOpen(true)} data-testid="button-edit-concert">
+                <Pencil className="h-4 w-4 mr-2" />
+                {concert.canEdit ? "Edit" : "Suggest Edit"}
+              </Button>
+            )}
             <Button onClick={() => setIsReviewDialogOpen(true)} data-testid="button-write-review">
               <Star className="h-4 w-4 mr-2" />
               Write Review
@@ -183,7 +313,11 @@ export default function ConcertDetail() {
             <div className="flex items-start gap-3">
               <MapPin className="h-5 w-5 text-muted-foreground mt-0.5" />
               <div>
-                <p className="font-medium" data-testid="text-concert-venue">
+                <p
+                  className={concert.venueId ? "font-medium cursor-pointer hover:text-primary transition-colors" : "font-medium"}
+                  onClick={concert.venueId ? () => navigate(`/venues/${concert.venueId}`) : undefined}
+                  data-testid="text-concert-venue"
+                >
                   {concert.venue}
                 </p>
                 <p className="text-sm text-muted-foreground" data-testid="text-concert-location">
@@ -201,6 +335,17 @@ export default function ConcertDetail() {
                     month: "long",
                     day: "numeric",
                   })}
+                  {concert.endDate && (
+                    <>
+                      {" – "}
+                      {new Date(concert.endDate).toLocaleDateString("en-US", {
+                        weekday: "long",
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      })}
+                    </>
+                  )}
                 </p>
                 {concert.time && (
                   <p className="text-sm text-muted-foreground flex items-center gap-1">
@@ -211,7 +356,7 @@ export default function ConcertDetail() {
               </div>
             </div>
           </div>
-          {concert.ticketUrl && (
+          {concert.ticketUrl && concert.status !== "cancelled" && (
             <div className="pt-4 border-t">
               <Button
                 asChild
@@ -228,6 +373,151 @@ export default function ConcertDetail() {
         </CardContent>
       </Card>
 
+      {/* Lineup */}
+      {lineup.length > 1 && (
+        <Card data-testid="card-lineup">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mic2 className="h-5 w-5" />
+              {concert.isFestival ? "Festival Lineup" : "Lineup"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {lineupDays.map(({ day, acts }) => (
+              <div key={day ?? "all"} className="space-y-2">
+                {lineupDays.length > 1 && (
+                  <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                    {day
+                      ? new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", timeZone: "UTC" })
+                      : "All days"}
+                  </h4>
+                )}
+                <ul className="divide-y">
+                  {acts.map((act) => (
+                    <li
+                      key={`${act.name}-${act.day ?? ""}`}
+                      className="flex items-center justify-between py-2"
+                      data-testid={`lineup-act-${act.position}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span
+                          className={`truncate ${act.role === "headliner" ? "font-semibold" : ""} ${act.artistId ? "cursor-pointer hover:text-primary transition-colors" : ""}`}
+                          onClick={act.artistId ? () => navigate(`/artists/${act.artistId}`) : undefined}
+                        >
+                          {act.name}
+                        </span>
+                        {act.role === "headliner" && <Badge variant="secondary">Headliner</Badge>}
+                      </div>
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground shrink-0">
+                        {act.setTime && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {act.setTime}
+                          </span>
+                        )}
+                        {act.averageRating !== null && (
+                          <span className="flex items-center gap-1" title={`${act.ratingCount} rating${act.ratingCount === 1 ? "" : "s"}`}>
+                            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                            {act.averageRating.toFixed(1)}
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Setlist */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <ListMusic className="h-5 w-5" />
+            Setlist
+          </CardTitle>
+          {canEditSetlist && !isEditingSetlist && !setlistLoading && (
+            <Button variant="outline" size="sm" onClick={startEditingSetlist} data-testid="button-edit-setlist">
+              <Pencil className="h-4 w-4 mr-2" />
+              {setlist ? "Edit" : "Add setlist"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {setlistLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : isEditingSetlist ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Main set (one song per line)</p>
+                <Textarea
+                  value={songsText}
+                  onChange={(e) => setSongsText(e.target.value)}
+                  rows={8}
+                  data-testid="textarea-setlist-songs"
+                />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Encore (one song per line)</p>
+                <Textarea
+                  value={encoreText}
+                  onChange={(e) => setEncoreText(e.target.value)}
+                  rows={3}
+                  data-testid="textarea-setlist-encore"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => saveSetlistMutation.mutate()}
+                  disabled={saveSetlistMutation.isPending || parseSongs(songsText).length === 0}
+                  data-testid="button-save-setlist"
+                >
+                  Save setlist
+                </Button>
+                <Button variant="outline" onClick={() => setIsEditingSetlist(false)} data-testid="button-cancel-setlist">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : hasSongs ? (
+            <>
+              <ol className="list-decimal list-inside space-y-1" data-testid="list-setlist-songs">
+                {setlist!.songs?.map((song, index) => (
+                  <li key={`${song}-${index}`}>{song}</li>
+                ))}
+              </ol>
+              {setlist!.encoreSongs && setlist!.encoreSongs.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-muted-foreground">Encore</p>
+                  <ol
+                    className="list-decimal list-inside space-y-1"
+                    start={(setlist!.songs?.length || 0) + 1}
+                    data-testid="list-setlist-encore"
+                  >
+                    {setlist!.encoreSongs.map((song, index) => (
+                      <li key={`${song}-${index}`}>{song}</li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+              {setlist!.notes && (
+                <p className="text-sm text-muted-foreground">{setlist!.notes}</p>
+              )}
+              <p className="text-xs text-muted-foreground" data-testid="text-setlist-source">
+                {setlist!.source === "setlistfm" ? "Source: setlist.fm" : "Submitted by the community"}
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground">No setlist yet for this show.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit History */}
+      {isStored && <ConcertHistory concertId={concert.id} canEdit={!!concert.canEdit} />}
+
       {/* Reviews Section */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -297,6 +587,16 @@ export default function ConcertDetail() {
                       </div>
                     </div>
                     <div className="flex items-center gap-1">
+                      {review.editedAt && (
+                        <Badge
+                          variant="outline"
+                          className="mr-1 px-1.5 py-0 text-[10px] font-normal cursor-pointer"
+                          onClick={() => setRevisionsReview(review)}
+                          data-testid={`badge-edited-${review.id}`}
+                        >
+                          edited
+                        </Badge>
+                      )}
                       <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                       <span className="font-semibold" data-testid={`text-rating-${review.id}`}>
                         {review.overallRating.toFixed(1)}
@@ -328,6 +628,24 @@ export default function ConcertDetail() {
         open={isReviewDialogOpen}
         onOpenChange={handleReviewDialogChange}
       />
+
+      {revisionsReview && (
+        <ReviewRevisionsDialog
+          open
+          onOpenChange={(open) => !open && setRevisionsReview(null)}
+          reviewId={revisionsReview.id}
+          currentRating={revisionsReview.overallRating}
+        />
+      )}
+
+      {isStored && (
+        <ConcertEditDialog
+          open={isEditDialogOpen}
+          onOpenChange={setIsEditDialogOpen}
+          concert={concert}
+          canEdit={!!concert.canEdit}
+        />
+      )}
     </div>
   );
 }
@@ -1,25 +1,16 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import SearchFilters from '@/components/search-filters';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import SearchFilters, { type NearFilter } from '@/components/search-filters';
 import ConcertCard from '@/components/concert-card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Concert } from '@/../../shared/schema';
-
-// Concert data with aggregated ratings and review counts
-type ConcertWithExtras = Concert & {
-  averageRating?: number;
-  performanceRating?: number;
-  soundRating?: number;
-  venueRating?: number;
-  valueRating?: number;
-  reviewCount: number;
-  isWishlisted?: boolean;
-};
+import { Loader2, Sparkles } from 'lucide-react';
+import type { ConcertSearchPage, ConcertWithRating, RecommendedConcert } from '@/../../shared/schema';
 
 // Transform Concert data to ConcertCard props format
-const transformConcertForCard = (concert: ConcertWithExtras) => ({
+const transformConcertForCard = (concert: ConcertWithRating) => ({
   ...concert,
   genre: concert.genre || undefined,
   imageUrl: concert.imageUrl || undefined,
@@ -27,6 +18,10 @@ const transformConcertForCard = (concert: ConcertWithExtras) => ({
   ticketUrl: concert.ticketUrl || undefined,
 });
 
+// Bounds of the price slider in SearchFilters
+const PRICE_SLIDER_MIN = 0;
+const PRICE_SLIDER_MAX = 200;
+
 const trendingGenres = ['Electronic', 'Indie Rock', 'Pop', 'Hip Hop', 'Jazz', 'Classical'];
 
 export default function Discover() {
@@ -36,8 +31,16 @@ export default function Discover() {
     city?: string;
     startDate?: string;
     endDate?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    near?: NearFilter;
   }>({});
   const [activeView, setActiveView] = useState<'grid' | 'list'>('grid');
+  const [, navigate] = useLocation();
+
+  const { data: recommendations = [] } = useQuery<RecommendedConcert[]>({
+    queryKey: ['/api/recommendations/concerts'],
+  });
 
   // Build query key with search parameters
   const buildQueryKey = () => {
@@ -47,14 +50,39 @@ export default function Discover() {
     if (searchParams.city) params.append('city', searchParams.city);
     if (searchParams.startDate) params.append('startDate', searchParams.startDate);
     if (searchParams.endDate) params.append('endDate', searchParams.endDate);
+    if (searchParams.minPrice !== undefined) params.append('minPrice', String(searchParams.minPrice));
+    if (searchParams.maxPrice !== undefined) params.append('maxPrice', String(searchParams.maxPrice));
+    if (searchParams.near) {
+      params.append('near', searchParams.near.near);
+      params.append('radiusKm', String(searchParams.near.radiusKm));
+    }
     return `/api/concerts?${params.toString()}`;
   };
 
-  // Fetch concerts from API (including Ticketmaster events)
-  const { data: concerts = [], isLoading, error } = useQuery<ConcertWithExtras[]>({
+  // Fetch concerts from API (including Ticketmaster events), one cursor page at a time
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: [buildQueryKey()],
+    queryFn: async ({ pageParam }): Promise<ConcertSearchPage> => {
+      const url = pageParam
+        ? `${buildQueryKey()}&cursor=${encodeURIComponent(pageParam)}`
+        : buildQueryKey();
+      const response = await fetch(url);
+      if (!response.ok) throw new Error('Failed to fetch concerts');
+      return response.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const concerts: ConcertWithRating[] = data?.pages.flatMap(page => page.concerts) ?? [];
+
   // Search functionality - now triggers API call
   const handleSearch = (query: string) => {
     setSearchParams(prev => ({ ...prev, search: query || undefined }));
@@ -88,6 +116,15 @@ export default function Discover() {
     }
   };
 
+  // The slider's ends mean "no limit" rather than $0 and $200
+  const handlePriceRangeChange = ([min, max]: [number, number]) => {
+    setSearchParams(prev => ({
+      ...prev,
+      minPrice: min > PRICE_SLIDER_MIN ? min : undefined,
+      maxPrice: max < PRICE_SLIDER_MAX ? max : undefined,
+    }));
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -106,9 +143,34 @@ export default function Discover() {
         onLocationChange={handleLocationChange}
         onGenreChange={handleGenreFilter}
         onDateRange={handleDateRangeChange}
-        onPriceRange={(range) => console.log('Price range:', range)}
+        onPriceRange={handlePriceRangeChange}
+        onNearChange={(near) => setSearchParams(prev => ({ ...prev, near: near ?? undefined }))}
       />
 
+      {/* Personalized picks */}
+      {recommendations.length > 0 && (
+        <div className="space-y-3" data-testid="section-for-you">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            For you
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {recommendations.slice(0, 6).map((concert) => (
+              <div
+                key={concert.id}
+                className="space-y-2"
+                onClick={() => navigate(`/concerts/${concert.id}`)}
+              >
+                <ConcertCard {...transformConcertForCard(concert)} />
+                <p className="text-sm text-muted-foreground" data-testid={`text-recommendation-reason-${concert.id}`}>
+                  {concert.reason}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Trending Genres */}
       <div className="space-y-3">
         <h2 className="text-lg font-semibold">Trending Genres</h2>
@@ -131,7 +193,7 @@ export default function Discover() {
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">
-            {concerts.length} concerts found
+            {concerts.length}{hasNextPage ? '+' : ''} concerts found
           </span>
         </div>
         
@@ -177,20 +239,22 @@ export default function Discover() {
       )}
 
       {/* Load More */}
-      {concerts.length > 0 && (
+      {hasNextPage && (
         <div className="flex justify-center pt-8">
           <Button 
             variant="outline" 
-            onClick={() => console.log('Loading more concerts...')}
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
             data-testid="button-load-more"
           >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
             Load More Concerts
           </Button>
         </div>
       )}
 
       {/* Empty State */}
-      {concerts.length === 0 && !isLoading && (
+      {concerts.length === 0 && !isLoading && !hasNextPage && (
         <div className="text-center py-12">
           <h3 className="text-lg font-semibold mb-2">No concerts found</h3>
           <p className="text-muted-foreground mb-4">
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Ban, Check, Eye, EyeOff, ExternalLink, ShieldAlert, ShieldCheck, UserCheck } from 'lucide-react';
+import type { ModerationQueueItem } from '@shared/schema';
+
+type QueueStatus = 'open' | 'resolved';
+type ModerationAction = 'dismiss' | 'hide' | 'restore';
+
+const targetLabels: Record<ModerationQueueItem['targetType'], string> = {
+  review: 'Review',
+  comment: 'Comment',
+  user: 'Profile',
+};
+
+const actionMessages: Record<ModerationAction, string> = {
+  dismiss: 'Reports dismissed',
+  hide: 'Content hidden',
+  restore: 'Content restored',
+};
+
+const getAuthorName = (author: NonNullable<ModerationQueueItem['content']>['author']) => {
+  if (!author) return 'Unknown user';
+  return `${author.firstName || ''} ${author.lastName || ''}`.trim() || author.username || 'Unknown user';
+};
+
+export default function Moderation() {
+  const [status, setStatus] = useState<QueueStatus>('open');
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isModerator = user?.role === 'moderator' || user?.role === 'admin';
+
+  const { data: queue = [], isLoading, error } = useQuery<ModerationQueueItem[]>({
+    queryKey: ['/api/moderation/reports', status],
+    queryFn: async () => {
+      const response = await fetch(`/api/moderation/reports?status=${status}`);
+      if (!response.ok) throw new Error('Failed to fetch moderation queue');
+      return response.json();
+    },
+    enabled: isModerator,
+  });
+
+  const onError = () => {
+    toast({
+      title: "Error",
+      description: "That didn't work. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: ({ item, action }: { item: ModerationQueueItem; action: ModerationAction }) =>
+      apiRequest('POST', `/api/moderation/${item.targetType}/${item.targetId}/${action}`),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/moderation/reports'] });
+      toast({ title: actionMessages[action] });
+    },
+    onError,
+  });
+
+  const suspendMutation = useMutation({
+    mutationFn: ({ userId, suspend }: { userId: string; suspend: boolean }) =>
+      apiRequest(suspend ? 'POST' : 'DELETE', `/api/moderation/users/${userId}/suspend`),
+    onSuccess: (_, { suspend }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/moderation/reports'] });
+      toast({
+        title: suspend ? "Account suspended" : "Account reinstated",
+        description: suspend ? "They can no longer post reviews or comments" : "They can post again",
+      });
+    },
+    onError,
+  });
+
+  if (!isModerator) {
+    return (
+      <div className="text-center py-12">
+        <ShieldAlert className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Moderators only</h3>
+        <p className="text-muted-foreground">You don't have access to the moderation queue</p>
+      </div>
+    );
+  }
+
+  const isPending = actionMutation.isPending || suspendMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-6 w-6 text-primary" />
+          <h1 className="text-3xl font-bold" data-testid="heading-moderation">Moderation</h1>
+        </div>
+        <p className="text-muted-foreground">
+          Reported reviews, comments and profiles
+        </p>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+        <TabsList className="grid w-full grid-cols-2 md:w-64">
+          <TabsTrigger value="open" data-testid="tab-moderation-open">Open</TabsTrigger>
+          <TabsTrigger value="resolved" data-testid="tab-moderation-resolved">Resolved</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Content */}
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-4 space-y-2">
+                <Skeleton className="h-4 w-1/3" />
+                <Skeleton className="h-12 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <ShieldAlert className="h-16 w-16 mx-auto text-destructive mb-4" />
+          <h3 className="text-lg font-semibold mb-2 text-destructive">Failed to load reports</h3>
+          <Button variant="outline" onClick={() => window.location.reload()} data-testid="button-retry-moderation">
+            Retry
+          </Button>
+        </div>
+      ) : queue.length === 0 ? (
+        <div className="text-center py-12">
+          <ShieldCheck className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">
+            {status === 'open' ? "Nothing to review" : "No resolved reports yet"}
+          </h3>
+          <p className="text-muted-foreground">
+            New reports show up here as soon as someone flags something
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {queue.map((item) => {
+            const key = `${item.targetType}-${item.targetId}`;
+            const author = item.content?.author ?? null;
+            return (
+              <Card key={key} data-testid={`card-report-${key}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{targetLabels[item.targetType]}</Badge>
+                    <Badge variant="secondary" data-testid={`badge-report-count-${key}`}>
+                      {item.reportCount} {item.reportCount === 1 ? 'report' : 'reports'}
+                    </Badge>
+                    {item.hidden && <Badge variant="destructive">Hidden</Badge>}
+                    {item.content?.authorSuspended && <Badge variant="destructive">Suspended</Badge>}
+                    {status === 'resolved' && <Badge variant="outline">{item.status}</Badge>}
+                  </div>
+
+                  {item.content ? (
+                    <div className="flex gap-3 rounded-lg bg-muted/50 p-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={author?.profileImageUrl || undefined} />
+                        <AvatarFallback>{getAuthorName(author).charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">
+                          {getAuthorName(author)}
+                          {author?.username && <span className="text-muted-foreground font-normal"> @{author.username}</span>}
+                        </p>
+                        <p className="text-sm leading-relaxed break-words line-clamp-4" data-testid={`text-reported-content-${key}`}>
+                          {item.content.text || <span className="italic text-muted-foreground">No text</span>}
+                        </p>
+                      </div>
+                      {item.content.link && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => navigate(item.content!.link!)}
+                          aria-label="Open"
+                          data-testid={`button-open-reported-${key}`}
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm italic text-muted-foreground">This content has been deleted</p>
+                  )}
+
+                  <ul className="space-y-1 text-sm">
+                    {item.reports.map((report) => (
+                      <li key={report.id} className="text-muted-foreground">
+                        <span className="font-medium text-foreground capitalize">{report.reason}</span>
+                        {report.details && <> - {report.details}</>}
+                        <span className="text-xs">
+                          {' '}· {report.reporterUsername ? `@${report.reporterUsername}` : 'deleted user'}
+                          {report.createdAt && `, ${formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {item.content && (
+                    <div className="flex flex-wrap gap-2">
+                      {status === 'open' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ item, action: 'dismiss' })}
+                          disabled={isPending}
+                          data-testid={`button-dismiss-${key}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                      )}
+                      {item.hidden ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ item, action: 'restore' })}
+                          disabled={isPending}
+                          data-testid={`button-restore-${key}`}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ item, action: 'hide' })}
+                          disabled={isPending}
+                          data-testid={`button-hide-${key}`}
+                        >
+                          <EyeOff className="h-4 w-4 mr-1" />
+                          Hide
+                        </Button>
+                      )}
+                      {author && (
+                        item.content.authorSuspended ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => suspendMutation.mutate({ userId: author.id, suspend: false })}
+                            disabled={isPending}
+                            data-testid={`button-unsuspend-${key}`}
+                          >
+                            <UserCheck className="h-4 w-4 mr-1" />
+                            Reinstate author
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => suspendMutation.mutate({ userId: author.id, suspend: true })}
+                            disabled={isPending}
+                            data-testid={`button-suspend-${key}`}
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Suspend author
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
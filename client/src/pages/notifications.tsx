@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, Bell, BellOff, CalendarClock, Check, Megaphone, Ticket, CheckCheck, Heart, MessageCircle, PenTool, Pencil, UserCheck, UserPlus, X } from 'lucide-react';
+import type { NotificationWithUser, PublicUser } from '@shared/schema';
+
+const notificationIcons: Record<string, typeof Bell> = {
+  follow: UserPlus,
+  follow_request: UserPlus,
+  follow_accepted: UserCheck,
+  like: Heart,
+  comment: MessageCircle,
+  review: PenTool,
+  concert_reminder: CalendarClock,
+  concert_update: AlertTriangle,
+  artist_new_show: Megaphone,
+  artist_on_sale: Ticket,
+  concert_edit_proposal: Pencil,
+  concert_edit_reviewed: Pencil,
+};
+
+const getInitials = (user: PublicUser | null) => {
+  if (!user) return '?';
+  if (user.firstName && user.lastName) {
+    return `${user.firstName[0]}${user.lastName[0]}`.toUpperCase();
+  }
+  return (user.firstName?.[0] || user.username?.[0] || '?').toUpperCase();
+};
+
+export default function Notifications() {
+  const [filter, setFilter] = useState<'all' | 'unread'>('all');
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: notifications = [], isLoading, error } = useQuery<NotificationWithUser[]>({
+    queryKey: ['/api/notifications', filter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '50' });
+      if (filter === 'unread') params.set('unreadOnly', 'true');
+      const response = await fetch(`/api/notifications?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch notifications');
+      return response.json();
+    },
+  });
+
+  // Pending requests to follow this (private) account
+  const { data: followRequests = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users/me/follow-requests'],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ followerId, approve }: { followerId: string; approve: boolean }) =>
+      apiRequest('POST', `/api/users/me/follow-requests/${followerId}/${approve ? 'approve' : 'deny'}`),
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/follow-requests'] });
+      toast({
+        title: approve ? "Request approved" : "Request denied",
+        description: approve
+          ? "They can now see your reviews and wishlist"
+          : "The follow request was removed",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to respond to follow request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalidateNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/notifications/${id}/read`),
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/notifications/read-all'),
+    onSuccess: () => {
+      invalidateNotifications();
+      toast({
+        title: "All caught up",
+        description: "All notifications marked as read",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleNotificationClick = (notification: NotificationWithUser) => {
+    if (!notification.isRead) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const hasUnread = notifications.some(notification => !notification.isRead);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Bell className="h-6 w-6 text-primary" />
+            <h1 className="text-3xl font-bold" data-testid="heading-notifications">Notifications</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Follows, likes, comments and reviews from people you follow
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => markAllReadMutation.mutate()}
+          disabled={!hasUnread || markAllReadMutation.isPending}
+          data-testid="button-mark-all-read"
+        >
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Mark all as read
+        </Button>
+      </div>
+
+      {followRequests.length > 0 && (
+        <Card data-testid="card-follow-requests">
+          <CardContent className="p-4 space-y-3">
+            <h2 className="font-semibold">Follow requests ({followRequests.length})</h2>
+            {followRequests.map((requester) => (
+              <div key={requester.id} className="flex items-center gap-3" data-testid={`follow-request-${requester.id}`}>
+                <Avatar>
+                  <AvatarImage src={requester.profileImageUrl || undefined} />
+                  <AvatarFallback>{getInitials(requester)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p
+                    className="font-medium text-sm cursor-pointer hover:text-primary truncate"
+                    onClick={() => requester.username && navigate(`/profile/${requester.username}`)}
+                  >
+                    {`${requester.firstName || ''} ${requester.lastName || ''}`.trim() || requester.username}
+                  </p>
+                  {requester.username && (
+                    <p className="text-xs text-muted-foreground">@{requester.username}</p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => respondMutation.mutate({ followerId: requester.id, approve: true })}
+                  disabled={respondMutation.isPending}
+                  data-testid={`button-approve-${requester.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => respondMutation.mutate({ followerId: requester.id, approve: false })}
+                  disabled={respondMutation.isPending}
+                  data-testid={`button-deny-${requester.id}`}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Deny
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | 'unread')}>
+        <TabsList className="grid w-full grid-cols-2 md:w-64">
+          <TabsTrigger value="all" data-testid="tab-notifications-all">All</TabsTrigger>
+          <TabsTrigger value="unread" data-testid="tab-notifications-unread">Unread</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Content */}
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-4 flex items-center gap-3">
+                <Skeleton className="h-10 w-10 rounded-full" />
+                <div className="space-y-2 flex-1">
+                  <Skeleton className="h-4 w-1/2" />
+                  <Skeleton className="h-3 w-1/4" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <Bell className="h-16 w-16 mx-auto text-destructive mb-4" />
+          <h3 className="text-lg font-semibold mb-2 text-destructive">Failed to load notifications</h3>
+          <p className="text-muted-foreground mb-4">
+            There was an error loading your notifications. Please try again.
+          </p>
+          <Button variant="outline" onClick={() => window.location.reload()} data-testid="button-retry-notifications">
+            Retry
+          </Button>
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-12">
+          <BellOff className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">
+            {filter === 'unread' ? "You're all caught up" : "No notifications yet"}
+          </h3>
+          <p className="text-muted-foreground">
+            When people follow you or interact with your reviews, you'll see it here
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {notifications.map((notification) => {
+            const Icon = notificationIcons[notification.type] || Bell;
+            return (
+              <Card
+                key={notification.id}
+                className={cn(
+                  "cursor-pointer hover-elevate",
+                  !notification.isRead && "border-primary/50 bg-primary/5"
+                )}
+                onClick={() => handleNotificationClick(notification)}
+                data-testid={`card-notification-${notification.id}`}
+              >
+                <CardContent className="p-4 flex items-center gap-3">
+                  <div className="relative">
+                    <Avatar>
+                      <AvatarImage src={notification.relatedUser?.profileImageUrl || undefined} />
+                      <AvatarFallback>{getInitials(notification.relatedUser)}</AvatarFallback>
+                    </Avatar>
+                    <div className="absolute -bottom-1 -right-1 rounded-full bg-background p-0.5">
+                      <Icon className="h-3.5 w-3.5 text-primary" />
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm">{notification.title}</p>
+                    <p className="text-sm text-muted-foreground truncate" data-testid={`text-notification-message-${notification.id}`}>
+                      {notification.message}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {notification.createdAt && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </span>
+                    )}
+                    {!notification.isRead && (
+                      <span className="h-2 w-2 rounded-full bg-primary" data-testid={`indicator-unread-${notification.id}`} />
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -74,7 +74,8 @@ const transformReviewForCard = (review: ReviewWithUser) => ({
   postedAt: review.createdAt ? new Date(review.createdAt).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric'
-  }) : 'Unknown'
+  }) : 'Unknown',
+  editedAt: review.editedAt
 });
 
 const transformConcertForCard = (concert: ConcertWithRating) => ({
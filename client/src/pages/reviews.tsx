@@ -43,7 +43,8 @@ const transformReviewForCard = (review: ReviewWithUser, currentUser: PublicUser
   postedAt: review.createdAt ? new Date(review.createdAt).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric'
-  }) : 'Unknown'
+  }) : 'Unknown',
+  editedAt: review.editedAt
 });
 
 // All mock data removed - now using real API data
@@ -9,7 +9,7 @@ import { Search, Users, UserPlus, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
-import type { PublicUser } from "@shared/schema";
+import type { PublicUser, UserFollow } from "@shared/schema";
 
 export default function SearchUsers() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -22,11 +22,15 @@ export default function SearchUsers() {
 
   const followUserMutation = async (userId: string) => {
     try {
-      await apiRequest("POST", `/api/users/${userId}/follow`);
+      const response = await apiRequest("POST", `/api/users/${userId}/follow`);
+      const follow: UserFollow = await response.json();
       queryClient.invalidateQueries({ queryKey: ["/api/users/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
       toast({
-        title: "Success",
-        description: "User followed successfully",
+        title: follow.status === "pending" ? "Request sent" : "Success",
+        description: follow.status === "pending"
+          ? "This account is private. They'll need to approve your request"
+          : "User followed successfully",
       });
     } catch (error) {
       toast({
@@ -41,6 +45,7 @@ export default function SearchUsers() {
     try {
       await apiRequest("DELETE", `/api/users/${userId}/follow`);
       queryClient.invalidateQueries({ queryKey: ["/api/users/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed"] });
       toast({
         title: "Success", 
         description: "User unfollowed successfully",
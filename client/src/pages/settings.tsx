@@ -1,11 +1,11 @@
-import { useState } from "react";
 import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,19 +18,124 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { useTheme } from "@/components/theme-provider";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Bell, Moon, Globe, Shield, HelpCircle, LogOut, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Bell, CalendarDays, Copy, Moon, Globe, Shield, HelpCircle, LogOut, Trash2 } from "lucide-react";
+import type { UserSettings } from "@shared/schema";
+
+type NotificationSettingKey =
+  | "pushNotifications"
+  | "emailNotifications"
+  | "newFollowerNotif"
+  | "newLikeNotif"
+  | "newCommentNotif"
+  | "newReviewNotif"
+  | "upcomingConcertReminders"
+  | "artistAlerts";
+
+const notificationToggles: Array<{ key: NotificationSettingKey; label: string }> = [
+  { key: "pushNotifications", label: "Push notifications" },
+  { key: "emailNotifications", label: "Email notifications" },
+  { key: "newFollowerNotif", label: "New followers" },
+  { key: "newLikeNotif", label: "Likes on your reviews" },
+  { key: "newCommentNotif", label: "Comments on your reviews" },
+  { key: "newReviewNotif", label: "Reviews from people you follow" },
+  { key: "upcomingConcertReminders", label: "Upcoming concert reminders" },
+  { key: "artistAlerts", label: "New shows and on-sales from artists you follow" },
+];
 
 export default function Settings() {
-  const [notifications, setNotifications] = useState(true);
-  const [darkMode, setDarkMode] = useState(false);
-  const [publicProfile, setPublicProfile] = useState(true);
-  
-  const { logoutMutation } = useAuth();
+  const { user, logoutMutation } = useAuth();
+  const { theme, setTheme } = useTheme();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
+  const { data: settings, isLoading: settingsLoading } = useQuery<UserSettings>({
+    queryKey: ["/api/users/me/settings"],
+  });
+
+  // Persist a single setting, optimistically flipping the toggle
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (updates: Partial<UserSettings>) => {
+      const response = await apiRequest("PUT", "/api/users/me/settings", updates);
+      return response.json() as Promise<UserSettings>;
+    },
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey: ["/api/users/me/settings"] });
+      const previousSettings = queryClient.getQueryData<UserSettings>(["/api/users/me/settings"]);
+      queryClient.setQueryData<UserSettings>(["/api/users/me/settings"], (old) =>
+        old ? { ...old, ...updates } : old
+      );
+      return { previousSettings };
+    },
+    onError: (_error, _updates, context) => {
+      queryClient.setQueryData(["/api/users/me/settings"], context?.previousSettings);
+      toast({
+        title: "Error",
+        description: "Failed to save your settings",
+        variant: "destructive",
+      });
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/users/me/settings"], updated);
+    },
+  });
+
+  // Profile visibility lives on the user record rather than user_settings
+  const updatePrivacyMutation = useMutation({
+    mutationFn: async (isPrivate: boolean) => {
+      await apiRequest("PUT", "/api/users/me", { isPrivate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update profile visibility",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Private calendar feed URL; resetting it revokes any existing subscriptions
+  const { data: calendarFeed } = useQuery<{ url: string }>({
+    queryKey: ["/api/users/me/calendar"],
+  });
+
+  const resetCalendarMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users/me/calendar/reset");
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: (feed) => {
+      queryClient.setQueryData(["/api/users/me/calendar"], feed);
+      toast({
+        title: "Calendar link reset",
+        description: "Calendars subscribed with the old link will stop updating",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset your calendar link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopyCalendarUrl = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      toast({ title: "Copied", description: "Paste the link into your calendar app to subscribe" });
+    } catch {
+      toast({ title: "Error", description: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
   // Delete account mutation
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
@@ -85,21 +190,62 @@ export default function Settings() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {notificationToggles.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label htmlFor={`setting-${key}`}>{label}</Label>
+                <Switch
+                  id={`setting-${key}`}
+                  checked={settings?.[key] ?? true}
+                  disabled={settingsLoading}
+                  onCheckedChange={(checked) => updateSettingsMutation.mutate({ [key]: checked })}
+                  data-testid={`switch-${key}`}
+                />
+              </div>
+            ))}
             <div className="flex items-center justify-between">
-              <Label htmlFor="push-notifications">Push notifications</Label>
-              <Switch
-                id="push-notifications"
-                checked={notifications}
-                onCheckedChange={setNotifications}
-              />
+              <Label htmlFor="reminder-days-before">Remind me before a show</Label>
+              <Select
+                value={String(settings?.reminderDaysBefore ?? 3)}
+                disabled={settingsLoading || settings?.upcomingConcertReminders === false}
+                onValueChange={(value) => updateSettingsMutation.mutate({ reminderDaysBefore: Number(value) })}
+              >
+                <SelectTrigger id="reminder-days-before" className="w-36" data-testid="select-reminder-days-before">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 day before</SelectItem>
+                  <SelectItem value="3">3 days before</SelectItem>
+                  <SelectItem value="7">1 week before</SelectItem>
+                  <SelectItem value="14">2 weeks before</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
             <div className="flex items-center justify-between">
-              <Label htmlFor="email-notifications">Email notifications</Label>
-              <Switch id="email-notifications" />
-            </div>
-            <div className="flex items-center justify-between">
-              <Label htmlFor="concert-alerts">Concert alerts</Label>
-              <Switch id="concert-alerts" defaultChecked />
+              <div className="space-y-1">
+                <Label htmlFor="artist-alert-radius">Artist alerts for shows</Label>
+                <p className="text-sm text-muted-foreground">
+                  Distances are measured from the location on your profile
+                </p>
+              </div>
+              <Select
+                value={settings?.artistAlertRadiusKm ? String(settings.artistAlertRadiusKm) : "anywhere"}
+                disabled={settingsLoading || settings?.artistAlerts === false}
+                onValueChange={(value) => updateSettingsMutation.mutate({
+                  artistAlertRadiusKm: value === "anywhere" ? null : Number(value),
+                })}
+              >
+                <SelectTrigger id="artist-alert-radius" className="w-36" data-testid="select-artist-alert-radius">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="anywhere">Anywhere</SelectItem>
+                  <SelectItem value="25">Within 25 km</SelectItem>
+                  <SelectItem value="50">Within 50 km</SelectItem>
+                  <SelectItem value="100">Within 100 km</SelectItem>
+                  <SelectItem value="250">Within 250 km</SelectItem>
+                  <SelectItem value="500">Within 500 km</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </CardContent>
         </Card>
@@ -116,12 +262,63 @@ export default function Settings() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-center justify-between">
-              <Label htmlFor="dark-mode">Dark mode</Label>
-              <Switch
-                id="dark-mode"
-                checked={darkMode}
-                onCheckedChange={setDarkMode}
+              <Label htmlFor="theme">Theme</Label>
+              <Select value={theme} onValueChange={(value) => setTheme(value as typeof theme)}>
+                <SelectTrigger id="theme" className="w-36" data-testid="select-theme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="light">Light</SelectItem>
+                  <SelectItem value="dark">Dark</SelectItem>
+                  <SelectItem value="system">System</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Calendar Feed
+            </CardTitle>
+            <CardDescription>
+              Subscribe from Google Calendar, Apple Calendar or Outlook to see your wishlisted and reviewed concerts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={calendarFeed?.url ?? ""}
+                placeholder="Loading..."
+                onFocus={(e) => e.target.select()}
+                data-testid="input-calendar-url"
               />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleCopyCalendarUrl}
+                disabled={!calendarFeed}
+                data-testid="button-copy-calendar-url"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Anyone with this link can see these concerts. Reset it if it's been shared.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resetCalendarMutation.mutate()}
+                disabled={resetCalendarMutation.isPending}
+                data-testid="button-reset-calendar-url"
+              >
+                Reset link
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -138,11 +335,18 @@ export default function Settings() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-center justify-between">
-              <Label htmlFor="public-profile">Public profile</Label>
+              <div className="space-y-1">
+                <Label htmlFor="public-profile">Public profile</Label>
+                <p className="text-sm text-muted-foreground">
+                  When off, new followers need your approval to see your reviews and wishlist
+                </p>
+              </div>
               <Switch
                 id="public-profile"
-                checked={publicProfile}
-                onCheckedChange={setPublicProfile}
+                checked={!user?.isPrivate}
+                disabled={updatePrivacyMutation.isPending}
+                onCheckedChange={(checked) => updatePrivacyMutation.mutate(!checked)}
+                data-testid="switch-public-profile"
               />
             </div>
             <div className="flex items-center justify-between">
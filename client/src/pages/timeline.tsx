@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -7,48 +7,17 @@ import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import ReviewCard from '@/components/review-card';
-import { Users, TrendingUp, Search, Filter, Clock } from 'lucide-react';
-
-interface ReviewWithUser {
-  id: string;
-  userId: string;
-  concertId: string;
-  overallRating: number;
-  performanceRating: number;
-  soundRating: number;
-  venueRating: number;
-  valueRating: number;
-  reviewText: string | null;
-  photos: string[] | null;
-  createdAt: string;
-  likesCount: number;
-  commentsCount: number;
-  isLiked: boolean;
-  user: {
-    id: string;
-    username: string;
-    displayName: string | null;
-    profileImage: string | null;
-  };
-  concert: {
-    id: string;
-    artist: string;
-    venue: string;
-    date: string;
-    city: string;
-    genre: string | null;
-    imageUrl: string | null;
-  };
-}
+import { Users, TrendingUp, Search, Filter, Clock, Loader2 } from 'lucide-react';
+import type { FeedPage, ReviewWithUser } from '@shared/schema';
 
 // Transform function to match ReviewCard props
 const transformReviewForCard = (review: ReviewWithUser) => ({
   id: review.id,
   userId: review.userId, // Add userId for ownership check
   user: {
-    name: review.user.displayName || review.user.username,
-    username: review.user.username,
-    avatar: review.user.profileImage || undefined
+    name: `${review.user.firstName || ''} ${review.user.lastName || ''}`.trim() || review.user.username || 'Anonymous',
+    username: review.user.username || 'anonymous',
+    avatar: review.user.profileImageUrl || undefined
   },
   concert: {
     artist: review.concert.artist,
@@ -69,34 +38,66 @@ const transformReviewForCard = (review: ReviewWithUser) => ({
   },
   reviewText: review.reviewText || '',
   photos: review.photos || [],
-  likes: review.likesCount,
-  comments: review.commentsCount,
-  isLiked: review.isLiked,
+  likes: review.likesCount || 0,
+  comments: review.commentsCount || 0,
+  isLiked: review.isLiked || false,
   postedAt: review.createdAt ? new Date(review.createdAt).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric'
-  }) : 'Unknown'
+  }) : 'Unknown',
+  editedAt: review.editedAt
 });
 
 export default function Timeline() {
   const [activeTab, setActiveTab] = useState('following');
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Get timeline reviews (for now, get all recent reviews as we don't have following system yet)
-  const { data: timelineReviews = [], isLoading: timelineLoading, error: timelineError } = useQuery<ReviewWithUser[]>({
-    queryKey: ['/api/reviews', 'timeline'],
-    queryFn: async () => {
-      const response = await fetch('/api/reviews?limit=20&sort=recent');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Reviews from followed users and artists, paged by cursor
+  const {
+    data: feed,
+    isLoading: timelineLoading,
+    error: timelineError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/feed'],
+    queryFn: async ({ pageParam }): Promise<FeedPage> => {
+      const params = new URLSearchParams({ limit: '20' });
+      if (pageParam) params.set('cursor', pageParam);
+      const response = await fetch(`/api/feed?${params.toString()}`);
       if (!response.ok) throw new Error('Failed to fetch timeline');
       return response.json();
     },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const timelineReviews = feed?.pages.flatMap(page => page.reviews) ?? [];
+  const isTrendingFallback = feed?.pages[0]?.source === 'trending';
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || activeTab !== 'following') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, activeTab]);
+
   // Get trending/popular reviews
   const { data: trendingReviews = [], isLoading: trendingLoading, error: trendingError } = useQuery<ReviewWithUser[]>({
     queryKey: ['/api/reviews', 'trending'],
     queryFn: async () => {
-      const response = await fetch('/api/reviews?limit=20&sort=rating');
+      const response = await fetch('/api/reviews?limit=20&sort=trending');
       if (!response.ok) throw new Error('Failed to fetch trending reviews');
       return response.json();
     },
@@ -105,15 +106,15 @@ export default function Timeline() {
   const filteredTimelineReviews = timelineReviews.filter(review =>
     review.concert.artist.toLowerCase().includes(searchQuery.toLowerCase()) ||
     review.concert.venue.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    review.user.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (review.user.displayName && review.user.displayName.toLowerCase().includes(searchQuery.toLowerCase()))
+    (review.user.username || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    `${review.user.firstName || ''} ${review.user.lastName || ''}`.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const filteredTrendingReviews = trendingReviews.filter(review =>
     review.concert.artist.toLowerCase().includes(searchQuery.toLowerCase()) ||
     review.concert.venue.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    review.user.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (review.user.displayName && review.user.displayName.toLowerCase().includes(searchQuery.toLowerCase()))
+    (review.user.username || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    `${review.user.firstName || ''} ${review.user.lastName || ''}`.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const renderSkeletons = () => (
@@ -216,9 +217,17 @@ export default function Timeline() {
             renderError(timelineError)
           ) : filteredTimelineReviews.length > 0 ? (
             <div className="space-y-6">
+              {isTrendingFallback && (
+                <p className="text-sm text-muted-foreground" data-testid="text-feed-fallback">
+                  You're not following anyone yet, so here's what's popular right now.
+                </p>
+              )}
               {filteredTimelineReviews.map((review) => (
                 <ReviewCard key={review.id} {...transformReviewForCard(review)} />
               ))}
+              <div ref={loadMoreRef} className="flex justify-center py-4" data-testid="feed-load-more">
+                {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+              </div>
             </div>
           ) : searchQuery ? (
             <div className="text-center py-12">
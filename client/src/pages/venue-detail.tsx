@@ -0,0 +1,200 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ConcertCard from "@/components/concert-card";
+import { Building2, MapPin, Star, Users, Calendar, ExternalLink } from "lucide-react";
+import type { VenueWithStats, ConcertWithRating, CategoryRatings } from "@shared/schema";
+
+const categoryLabels: Array<{ key: keyof CategoryRatings; label: string }> = [
+  { key: "overall", label: "Overall" },
+  { key: "performance", label: "Performance" },
+  { key: "sound", label: "Sound" },
+  { key: "venue", label: "Venue" },
+  { key: "value", label: "Value" },
+];
+
+const transformConcertForCard = (concert: ConcertWithRating) => ({
+  id: concert.id,
+  artist: concert.artist,
+  venue: concert.venue,
+  date: concert.date,
+  time: concert.time,
+  city: concert.city,
+  price: concert.price,
+  genre: concert.genre || undefined,
+  imageUrl: concert.imageUrl || undefined,
+  rating: concert.averageRating,
+  ticketUrl: concert.ticketUrl || undefined,
+});
+
+export default function VenueDetail() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+
+  const { data: venue, isLoading: venueLoading } = useQuery<VenueWithStats>({
+    queryKey: ["/api/venues", id],
+    enabled: !!id,
+  });
+
+  const { data: concerts = [], isLoading: concertsLoading } = useQuery<ConcertWithRating[]>({
+    queryKey: ["/api/venues", id, "concerts"],
+    enabled: !!id,
+  });
+
+  if (venueLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-12 w-1/2" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!venue) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Building2 className="h-16 w-16 text-muted-foreground mb-4" />
+        <h2 className="text-2xl font-semibold mb-2">Venue not found</h2>
+        <p className="text-muted-foreground mb-4">
+          We couldn't find the venue you're looking for
+        </p>
+        <Button onClick={() => navigate("/discover")} data-testid="button-back-discover">
+          Back to Discover
+        </Button>
+      </div>
+    );
+  }
+
+  // Concert dates are stored as ISO date strings, so lexical comparison works
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingConcerts = concerts
+    .filter(concert => concert.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const pastConcerts = concerts
+    .filter(concert => concert.date < today)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const location = [venue.city, venue.state, venue.country].filter(Boolean).join(", ");
+
+  const renderConcertGrid = (list: ConcertWithRating[], emptyMessage: string) => (
+    concertsLoading ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
+      </div>
+    ) : list.length > 0 ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {list.map(concert => (
+          <div key={concert.id} onClick={() => navigate(`/concerts/${concert.id}`)}>
+            <ConcertCard {...transformConcertForCard(concert)} />
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="text-center py-12 text-muted-foreground">
+        <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>{emptyMessage}</p>
+      </div>
+    )
+  );
+
+  return (
+    <div className="space-y-6" data-testid="page-venue-detail">
+      {/* Venue Header */}
+      <div className="space-y-3">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold" data-testid="text-venue-name">
+              {venue.name}
+            </h1>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1" data-testid="text-venue-location">
+                <MapPin className="h-4 w-4" />
+                {venue.address ? `${venue.address}, ${location}` : location}
+              </span>
+              {venue.capacity && (
+                <span className="flex items-center gap-1" data-testid="text-venue-capacity">
+                  <Users className="h-4 w-4" />
+                  {venue.capacity.toLocaleString()} capacity
+                </span>
+              )}
+            </div>
+          </div>
+          {venue.averageRating != null && (
+            <div className="flex items-center gap-2">
+              <Star className="h-5 w-5 fill-yellow-400 text-yellow-400" />
+              <span className="text-2xl font-semibold" data-testid="text-venue-average-rating">
+                {venue.averageRating.toFixed(1)}
+              </span>
+              <span className="text-sm text-muted-foreground" data-testid="text-venue-review-count">
+                ({venue.reviewCount || 0} {venue.reviewCount === 1 ? "review" : "reviews"})
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {venue.type && <Badge>{venue.type}</Badge>}
+          {venue.amenities?.map(amenity => (
+            <Badge key={amenity} variant="secondary">{amenity}</Badge>
+          ))}
+        </div>
+        {venue.website && (
+          <Button asChild variant="outline" size="sm" data-testid="button-venue-website">
+            <a href={venue.website} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Website
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {/* Per-category scores across all shows at this venue */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Scores at this Venue</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {venue.averageRatings ? (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {categoryLabels.map(({ key, label }) => (
+                <div key={key} className="text-center" data-testid={`rating-${key}`}>
+                  <div className="flex items-center justify-center gap-1">
+                    <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                    <span className="text-xl font-semibold">
+                      {venue.averageRatings![key].toFixed(1)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No reviews yet for shows at this venue.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Shows */}
+      <Tabs defaultValue="upcoming" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="upcoming" data-testid="tab-upcoming-shows">
+            Upcoming ({upcomingConcerts.length})
+          </TabsTrigger>
+          <TabsTrigger value="past" data-testid="tab-past-shows">
+            Past ({pastConcerts.length})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="upcoming">
+          {renderConcertGrid(upcomingConcerts, "No upcoming shows at this venue")}
+        </TabsContent>
+        <TabsContent value="past">
+          {renderConcertGrid(pastConcerts, "No past shows at this venue yet")}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
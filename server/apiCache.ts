@@ -0,0 +1,229 @@
+import { eq, lt } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { apiCacheEntries } from "@shared/schema";
+
+/**
+ * Response cache and rate-limit handling for the external concert APIs.
+ *
+ * Each provider gets its own ExternalApiClient with a TTL and retry policy.
+ * Identical in-flight requests share one fetch, and 429s back off
+ * exponentially (honouring Retry-After). Responses land in a pluggable
+ * CacheStore: in-memory by default, Postgres when API_CACHE_STORE=postgres.
+ */
+
+export interface CachedResponse {
+  status: number;
+  data: any;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, provider: string, value: CachedResponse, ttlMs: number): Promise<void>;
+}
+
+export interface ProviderCacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  retries: number;
+  rateLimited: number;
+  errors: number;
+}
+
+export interface ExternalApiClientOptions {
+  provider: string;
+  ttlMs: number;
+  // Not-found responses are cached too, but for less time in case the resource appears
+  notFoundTtlMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // Query params stripped from cache keys so secrets never end up in the store
+  secretParams?: string[];
+}
+
+const MAX_MEMORY_ENTRIES = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, _provider: string, value: CachedResponse, ttlMs: number): Promise<void> {
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MAX_MEMORY_ENTRIES && !this.entries.has(key)) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
+
+export class PostgresCacheStore implements CacheStore {
+  constructor(private readonly db: NeonHttpDatabase) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(apiCacheEntries)
+      .where(eq(apiCacheEntries.key, key))
+      .limit(1);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= new Date()) {
+      await this.db.delete(apiCacheEntries).where(lt(apiCacheEntries.expiresAt, new Date()));
+      return undefined;
+    }
+    return { status: entry.status, data: entry.data };
+  }
+
+  async set(key: string, provider: string, value: CachedResponse, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await this.db
+      .insert(apiCacheEntries)
+      .values({ key, provider, status: value.status, data: value.data, expiresAt })
+      .onConflictDoUpdate({
+        target: apiCacheEntries.key,
+        set: { status: value.status, data: value.data, expiresAt, createdAt: new Date() },
+      });
+  }
+}
+
+let cacheStore: CacheStore = new MemoryCacheStore();
+const clients: ExternalApiClient[] = [];
+
+export function setCacheStore(store: CacheStore) {
+  cacheStore = store;
+}
+
+export function getApiCacheStats(): Record<string, ProviderCacheStats> {
+  return Object.fromEntries(clients.map(client => [client.provider, { ...client.stats }]));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ExternalApiClient {
+  readonly provider: string;
+  readonly stats: ProviderCacheStats = { hits: 0, misses: 0, coalesced: 0, retries: 0, rateLimited: 0, errors: 0 };
+  private readonly options: Required<ExternalApiClientOptions>;
+  private inFlight = new Map<string, Promise<CachedResponse>>();
+
+  constructor(options: ExternalApiClientOptions) {
+    this.provider = options.provider;
+    this.options = {
+      notFoundTtlMs: Math.min(options.ttlMs, 5 * 60 * 1000),
+      maxRetries: 3,
+      baseDelayMs: 500,
+      secretParams: [],
+      ...options,
+    };
+    clients.push(this);
+  }
+
+  /**
+   * GET a JSON resource through the cache. Only 2xx and 404 responses are
+   * cached; other errors come back uncached so callers can handle them.
+   */
+  async getJson(url: string, init?: RequestInit): Promise<CachedResponse> {
+    const key = this.cacheKey(url);
+
+    const cached = await this.readCache(key);
+    if (cached) {
+      this.stats.hits++;
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    this.stats.misses++;
+    const request = this.fetchWithBackoff(url, init)
+      .then(async (response) => {
+        if (response.status < 300 || response.status === 404) {
+          const ttlMs = response.status === 404 ? this.options.notFoundTtlMs : this.options.ttlMs;
+          await this.writeCache(key, response, ttlMs);
+        }
+        return response;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async fetchWithBackoff(url: string, init?: RequestInit): Promise<CachedResponse> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        this.stats.errors++;
+        if (attempt >= this.options.maxRetries) throw error;
+        this.stats.retries++;
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (response.status === 429) this.stats.rateLimited++;
+
+      if (retryable && attempt < this.options.maxRetries) {
+        this.stats.retries++;
+        await sleep(this.backoffDelay(attempt, response.headers.get('retry-after')));
+        continue;
+      }
+
+      if (!response.ok && response.status !== 404) {
+        this.stats.errors++;
+      }
+
+      const data = response.ok ? await response.json() : null;
+      return { status: response.status, data };
+    }
+  }
+
+  private backoffDelay(attempt: number, retryAfter?: string | null): number {
+    const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+    if (!isNaN(retryAfterSeconds)) {
+      return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+    }
+    // Full jitter keeps retries from several requests from landing together
+    const ceiling = Math.min(this.options.baseDelayMs * 2 ** attempt, MAX_BACKOFF_MS);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private cacheKey(url: string): string {
+    const parsed = new URL(url);
+    this.options.secretParams.forEach(param => parsed.searchParams.delete(param));
+    parsed.searchParams.sort();
+    return `${this.provider}:${parsed.toString()}`;
+  }
+
+  // A broken cache store shouldn't take the API down with it
+  private async readCache(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await cacheStore.get(key);
+    } catch (error) {
+      console.error(`Error reading ${this.provider} cache:`, error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, value: CachedResponse, ttlMs: number): Promise<void> {
+    try {
+      await cacheStore.set(key, this.provider, value, ttlMs);
+    } catch (error) {
+      console.error(`Error writing ${this.provider} cache:`, error);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { storage, type ArtistAlertRecipient } from "./storage";
+import { normalizeName, TICKETMASTER_ID_PREFIX } from "./concertMatching";
+import { haversineKm, type GeoPoint } from "./geo";
+import { log } from "./vite";
+import type { Artist, ArtistEvent, ArtistEventAlertKind } from "@shared/schema";
+
+/**
+ * New-show and on-sale alerts for followed artists.
+ *
+ * Each run searches Ticketmaster for a batch of followed artists and records
+ * their events in artist_events; events we hadn't seen before are announced
+ * to followers. Separately, events whose public sale opens within the lead
+ * time get an "on sale soon" alert. Followers can limit alerts to shows near
+ * their profile location.
+ */
+
+const DEFAULT_INTERVAL_MS = (Number(process.env.ARTIST_ALERT_INTERVAL_MINUTES) || 60) * 60 * 1000;
+// Each artist costs one Ticketmaster search
+const SCAN_BATCH_SIZE = 20;
+const RESCAN_AFTER_MS = 12 * 60 * 60 * 1000;
+const ON_SALE_LEAD_MS = 24 * 60 * 60 * 1000;
+
+// Followers' home coordinates, resolved once per run
+type HomeLookup = (location: string) => Promise<GeoPoint | null>;
+
+function createHomeLookup(): HomeLookup {
+  const cache = new Map<string, Promise<GeoPoint | null>>();
+  return (location) => {
+    const key = normalizeName(location);
+    if (!cache.has(key)) cache.set(key, storage.getLocationCoordinates(location));
+    return cache.get(key)!;
+  };
+}
+
+/**
+ * Whether a show falls inside the follower's alert area. Without coordinates
+ * on either side, the show's city has to match the profile location's city.
+ */
+async function isInAlertArea(event: ArtistEvent, recipient: ArtistAlertRecipient, lookupHome: HomeLookup): Promise<boolean> {
+  if (recipient.radiusKm === null) return true;
+  if (!recipient.location) return false;
+
+  const home = await lookupHome(recipient.location);
+  if (home && event.latitude != null && event.longitude != null) {
+    return haversineKm(home, { latitude: event.latitude, longitude: event.longitude }) <= recipient.radiusKm;
+  }
+  return normalizeName(event.city.split(',')[0]) === normalizeName(recipient.location.split(',')[0]);
+}
+
+function describeAlert(artist: Artist, event: ArtistEvent, kind: ArtistEventAlertKind): { title: string; message: string } {
+  const show = `${artist.name} at ${event.venue}, ${event.city} on ${event.date}`;
+  if (kind === 'announced') {
+    return { title: 'New show announced', message: show };
+  }
+  const onSale = event.onSaleAt
+    ? event.onSaleAt.toLocaleString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: event.timezone || 'UTC',
+        timeZoneName: 'short',
+      })
+    : 'soon';
+  return { title: 'Tickets on sale soon', message: `${show} goes on sale ${onSale}` };
+}
+
+async function alertFollowers(
+  artist: Artist,
+  events: ArtistEvent[],
+  kind: ArtistEventAlertKind,
+  lookupHome: HomeLookup,
+): Promise<number> {
+  if (events.length === 0) return 0;
+  const recipients = await storage.getArtistAlertRecipients(artist.id);
+
+  let sent = 0;
+  for (const event of events) {
+    for (const recipient of recipients) {
+      if (!await isInAlertArea(event, recipient, lookupHome)) continue;
+      if (!await storage.claimArtistEventAlert(recipient.userId, event.id, kind)) continue;
+
+      const { title, message } = describeAlert(artist, event, kind);
+      await storage.createNotification({
+        userId: recipient.userId,
+        type: kind === 'announced' ? 'artist_new_show' : 'artist_on_sale',
+        title,
+        message,
+        link: `/concerts/${TICKETMASTER_ID_PREFIX}${event.ticketmasterEventId}`,
+      });
+      sent++;
+    }
+  }
+  return sent;
+}
+
+/**
+ * Scan a batch of followed artists and send due on-sale alerts; returns how many alerts went out
+ */
+export async function runArtistAlerts(now: Date = new Date()): Promise<number> {
+  const lookupHome = createHomeLookup();
+  let sent = 0;
+
+  const artists = await storage.getFollowedArtistsDueForScan({
+    limit: SCAN_BATCH_SIZE,
+    scannedBefore: new Date(now.getTime() - RESCAN_AFTER_MS),
+  });
+  for (const artist of artists) {
+    try {
+      const artistKey = normalizeName(artist.name);
+      // Keyword search also returns other acts' shows, e.g. tribute bands
+      const events = (await storage.searchTicketmasterEvents({ keyword: artist.name, size: 50 }))
+        .filter(event => normalizeName(event.artist) === artistKey ||
+          event.lineup?.some((act: { name: string }) => normalizeName(act.name) === artistKey));
+      const announced = await storage.recordArtistEvents(artist, events);
+      sent += await alertFollowers(artist, announced, 'announced', lookupHome);
+    } catch (error) {
+      console.error(`Error scanning events for artist ${artist.id}:`, error);
+    }
+  }
+
+  const goingOnSale = await storage.getArtistEventsGoingOnSale(now, new Date(now.getTime() + ON_SALE_LEAD_MS));
+  const byArtist = new Map<string, ArtistEvent[]>();
+  for (const event of goingOnSale) {
+    byArtist.set(event.artistId, [...(byArtist.get(event.artistId) ?? []), event]);
+  }
+  for (const [artistId, events] of Array.from(byArtist)) {
+    try {
+      const artist = await storage.getArtist(artistId);
+      if (artist) sent += await alertFollowers(artist, events, 'on_sale', lookupHome);
+    } catch (error) {
+      console.error(`Error sending on-sale alerts for artist ${artistId}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Run alerts now and then on an interval. Returns a function that stops the scheduler.
+ */
+export function startArtistAlertScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const sent = await runArtistAlerts();
+      if (sent > 0) log(`sent ${sent} artist alerts`);
+    } catch (error) {
+      console.error('Error running artist alerts:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
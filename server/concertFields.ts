@@ -0,0 +1,113 @@
+/**
+ * Typed concert timing and pricing derived from the display strings.
+ *
+ * Concerts arrive with free-text date, time and price ("TBA", "Historical",
+ * "$45-$90"). The structured columns the filters run against are parsed from
+ * those strings, so every source gets them whether or not it sends them.
+ */
+
+export interface StructuredConcertFields {
+  startsAt: Date | null;
+  priceMin: number | null;
+  priceMax: number | null;
+  currency: string | null;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+};
+
+/**
+ * Parse "$45-$90", "45.50 EUR", "£30" or "Free" into a range. Anything
+ * without an amount ("TBA", "Historical") has no price.
+ */
+export function parsePriceRange(price: string | null | undefined): Pick<StructuredConcertFields, 'priceMin' | 'priceMax' | 'currency'> {
+  if (!price) return { priceMin: null, priceMax: null, currency: null };
+  if (/^\s*free\s*$/i.test(price)) return { priceMin: 0, priceMax: 0, currency: null };
+
+  const amounts = price.replace(/,/g, '').match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [];
+  if (amounts.length === 0) return { priceMin: null, priceMax: null, currency: null };
+
+  const code = price.match(/\b[A-Z]{3}\b/)?.[0];
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(symbol => price.includes(symbol));
+  return {
+    priceMin: Math.min(...amounts),
+    priceMax: Math.max(...amounts),
+    currency: code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : null),
+  };
+}
+
+/**
+ * Parse "19:30", "19:30:00", "7:30 PM" or "7pm" into a 24-hour clock time
+ */
+export function parseClockTime(time: string | null | undefined): { hours: number; minutes: number } | null {
+  const match = time?.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  // A bare hour like "7" is too ambiguous to trust
+  if (!match[2] && !meridiem) return null;
+  return { hours, minutes };
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - instant;
+}
+
+/**
+ * The instant a show starts, from its local date and time in the venue's
+ * timezone. Shows without a usable time start at local midnight; shows
+ * without a timezone are treated as UTC.
+ */
+export function parseStartsAt(date: string, time?: string | null, timezone?: string | null): Date | null {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!dateMatch) return null;
+
+  const clock = parseClockTime(time) ?? { hours: 0, minutes: 0 };
+  const localAsUtc = Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]), clock.hours, clock.minutes);
+  if (isNaN(localAsUtc)) return null;
+  if (!timezone) return new Date(localAsUtc);
+
+  try {
+    // Correct once more in case the first guess landed across a DST change
+    let instant = localAsUtc - getTimezoneOffset(localAsUtc, timezone);
+    instant = localAsUtc - getTimezoneOffset(instant, timezone);
+    return new Date(instant);
+  } catch {
+    // Unknown timezone names throw from Intl
+    return new Date(localAsUtc);
+  }
+}
+
+export function deriveConcertFields(concert: {
+  date: string;
+  time?: string | null;
+  price?: string | null;
+  timezone?: string | null;
+}): StructuredConcertFields {
+  return {
+    startsAt: parseStartsAt(concert.date, concert.time, concert.timezone),
+    ...parsePriceRange(concert.price),
+  };
+}
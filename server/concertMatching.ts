@@ -0,0 +1,119 @@
+/**
+ * Concert identity helpers shared by storage and the external API merges.
+ *
+ * The same show can reach us as a Ticketmaster event (tm_…), a Setlist.fm
+ * setlist (setlistfm_…) or a user-created concert. They're matched on a
+ * normalized artist|venue|city|date key so they collapse into one row.
+ * Early and late shows share that key, so two rows with a key in common are
+ * still different shows when both have a start time and the times differ.
+ */
+
+import { parseClockTime } from "./concertFields";
+
+export const TICKETMASTER_ID_PREFIX = 'tm_';
+export const SETLISTFM_ID_PREFIX = 'setlistfm_';
+
+export interface ConcertIdentityFields {
+  artist: string;
+  venue: string;
+  city: string;
+  date: string;
+}
+
+// Anything but letters and digits, in any script
+const NON_ALPHANUMERIC = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+export interface ExternalConcertIds {
+  ticketmasterId?: string;
+  setlistFmId?: string;
+}
+
+/**
+ * Normalize a name for matching: case, accents, punctuation and a leading
+ * "The" don't distinguish one act or venue from another. Letters and digits
+ * of every script are kept.
+ */
+export function normalizeName(value: string): string {
+  const normalized = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/^\s*the\s+/, '')
+    .replace(NON_ALPHANUMERIC, '');
+  // A name made only of symbols still has to tell acts apart
+  return normalized || value.trim().toLowerCase();
+}
+
+/**
+ * Only the first segment of "City, State, Country" is compared, since the
+ * sources disagree on whether state and country are included
+ */
+export function normalizeCity(city: string): string {
+  return normalizeName(city.split(',')[0] || '');
+}
+
+export function buildConcertMatchKey(concert: ConcertIdentityFields): string {
+  return [
+    normalizeName(concert.artist),
+    normalizeName(concert.venue),
+    normalizeCity(concert.city),
+    concert.date.slice(0, 10),
+  ].join('|');
+}
+
+// "HH:MM", or null when the time is missing or can't be read ("TBA")
+function getStartTimeKey(time: string | null | undefined): string | null {
+  const clock = parseClockTime(time);
+  return clock ? `${String(clock.hours).padStart(2, '0')}:${String(clock.minutes).padStart(2, '0')}` : null;
+}
+
+/**
+ * Whether two shows with the same match key are different sets on the same day
+ */
+export function startTimesDiffer(a: string | null | undefined, b: string | null | undefined): boolean {
+  const first = getStartTimeKey(a);
+  const second = getStartTimeKey(b);
+  return first !== null && second !== null && first !== second;
+}
+
+/**
+ * The set entries a listed concert is recognized by. A show with a start time
+ * also registers under "any time" so shows without one still find it.
+ */
+export function getMatchKeyEntries(matchKey: string, time?: string | null): string[] {
+  const start = getStartTimeKey(time);
+  return start ? [`${matchKey}@${start}`, `${matchKey}@*`] : [matchKey, `${matchKey}@*`];
+}
+
+/**
+ * The set entries that mean a show with this key and time is already listed,
+ * paired with getMatchKeyEntries
+ */
+export function getMatchKeyProbes(matchKey: string, time?: string | null): string[] {
+  const start = getStartTimeKey(time);
+  return start ? [`${matchKey}@${start}`, matchKey] : [`${matchKey}@*`];
+}
+
+/**
+ * Split a prefixed concert id into the external alias it represents
+ */
+export function parseExternalConcertId(id: string): ExternalConcertIds {
+  if (id.startsWith(TICKETMASTER_ID_PREFIX)) {
+    return { ticketmasterId: id.slice(TICKETMASTER_ID_PREFIX.length) };
+  }
+  if (id.startsWith(SETLISTFM_ID_PREFIX)) {
+    return { setlistFmId: id.slice(SETLISTFM_ID_PREFIX.length) };
+  }
+  return {};
+}
+
+/**
+ * Every id a stored concert can be reached by, including its external aliases
+ */
+export function getConcertIdAliases(concert: { id: string; ticketmasterId?: string | null; setlistFmId?: string | null }): string[] {
+  const aliases = [concert.id];
+  if (concert.ticketmasterId) aliases.push(`${TICKETMASTER_ID_PREFIX}${concert.ticketmasterId}`);
+  if (concert.setlistFmId) aliases.push(`${SETLISTFM_ID_PREFIX}${concert.setlistFmId}`);
+  return aliases;
+}
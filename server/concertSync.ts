@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+/**
+ * Periodic refresh of stored Ticketmaster concerts.
+ *
+ * Search results are live, but concerts saved to our database (wishlisted,
+ * reviewed, imported) keep whatever Ticketmaster said when they were stored.
+ * Each run re-fetches a batch of the least recently checked upcoming shows so
+ * cancellations, postponements and new dates reach the people who saved them.
+ */
+
+const DEFAULT_INTERVAL_MS = (Number(process.env.CONCERT_SYNC_INTERVAL_MINUTES) || 60) * 60 * 1000;
+// Small batches keep each run well inside the Ticketmaster rate limit
+const SYNC_BATCH_SIZE = 50;
+const RECHECK_AFTER_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Sync one batch of stale concerts; returns how many changed status or date
+ */
+export async function syncTicketmasterConcerts(now: Date = new Date()): Promise<number> {
+  const due = await storage.getConcertsDueForSync({
+    limit: SYNC_BATCH_SIZE,
+    checkedBefore: new Date(now.getTime() - RECHECK_AFTER_MS),
+  });
+
+  let changed = 0;
+  for (const concert of due) {
+    try {
+      const { change } = await storage.syncTicketmasterConcert(concert);
+      if (change) {
+        changed++;
+        log(`concert ${concert.id} ${change}`);
+      }
+    } catch (error) {
+      // Left unchecked, so it's first in line next run
+      console.error(`Error syncing concert ${concert.id}:`, error);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Sync now and then on an interval. Returns a function that stops the scheduler.
+ */
+export function startConcertSyncScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await syncTicketmasterConcerts();
+    } catch (error) {
+      console.error('Error syncing Ticketmaster concerts:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
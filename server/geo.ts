@@ -0,0 +1,46 @@
+import { sql, type SQL, type AnyColumn } from "drizzle-orm";
+
+/**
+ * Great-circle distance helpers for "near me" concert search.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_NEAR_RADIUS_KM = 50;
+export const MAX_NEAR_RADIUS_KM = 500;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Parse a "lat,lon" query value, rejecting anything off the globe
+ */
+export function parseGeoPoint(value: string): GeoPoint | null {
+  const [latitude, longitude] = value.split(',').map(part => Number(part.trim()));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * The same haversine distance as an SQL expression over latitude/longitude columns
+ */
+export function haversineKmSql(origin: GeoPoint, latitude: AnyColumn, longitude: AnyColumn): SQL<number> {
+  return sql<number>`${2 * EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    power(sin(radians(${latitude} - ${origin.latitude}) / 2), 2) +
+    cos(radians(${origin.latitude})) * cos(radians(${latitude})) *
+    power(sin(radians(${longitude} - ${origin.longitude}) / 2), 2)
+  )))`;
+}
@@ -0,0 +1,171 @@
+import { deriveConcertFields, parseClockTime } from "./concertFields";
+
+/**
+ * iCalendar (RFC 5545) output for concert feeds and one-off downloads.
+ *
+ * Timed shows with a known venue timezone are written in UTC from startsAt,
+ * which was already resolved in that zone, so every client places them
+ * correctly without VTIMEZONE blocks. Without a timezone (e.g. user-created
+ * shows) the start is written as floating local time, which clients show at
+ * the listed hour wherever the reader is. Shows without a known start time
+ * become all-day events.
+ */
+
+export interface CalendarConcert {
+  id: string;
+  artist: string;
+  venue: string;
+  city: string;
+  date: string;
+  time: string;
+  price?: string | null;
+  timezone?: string | null;
+  startsAt?: Date | string | null;
+  ticketUrl?: string | null;
+  updatedAt?: Date | string | null;
+}
+
+export interface CalendarEvent {
+  concert: CalendarConcert;
+  // Extra lines for the description, e.g. "On your wishlist"
+  notes?: string[];
+  url?: string;
+}
+
+const PRODUCT_ID = '-//ConcertCritic//Concerts//EN';
+const DEFAULT_DURATION_MS = 3 * 60 * 60 * 1000;
+
+// Text values escape backslashes, separators and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets, continuing with a leading space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Floating local time: the wall-clock value without a "Z" suffix
+function formatFloating(date: Date): string {
+  return formatUtc(date).replace(/Z$/, '');
+}
+
+function formatDate(isoDate: string): string {
+  return isoDate.slice(0, 10).replace(/-/g, '');
+}
+
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function buildEvent({ concert, notes = [], url }: CalendarEvent, now: Date): string[] | null {
+  const clockTime = parseClockTime(concert.time);
+  const hasDate = /^\d{4}-\d{2}-\d{2}/.test(concert.date);
+  const startsAt = concert.startsAt
+    ? new Date(concert.startsAt)
+    : deriveConcertFields(concert).startsAt;
+
+  let timing: string[];
+  if (clockTime && concert.timezone && startsAt) {
+    timing = [
+      `DTSTART:${formatUtc(startsAt)}`,
+      `DTEND:${formatUtc(new Date(startsAt.getTime() + DEFAULT_DURATION_MS))}`,
+    ];
+  } else if (clockTime && hasDate) {
+    // Wall-clock time held in a UTC Date only so the end time can be added
+    const localStart = new Date(`${concert.date.slice(0, 10)}T00:00:00Z`);
+    localStart.setUTCHours(clockTime.hours, clockTime.minutes);
+    timing = [
+      `DTSTART:${formatFloating(localStart)}`,
+      `DTEND:${formatFloating(new Date(localStart.getTime() + DEFAULT_DURATION_MS))}`,
+    ];
+  } else if (hasDate) {
+    timing = [
+      `DTSTART;VALUE=DATE:${formatDate(concert.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(concert.date))}`,
+    ];
+  } else {
+    // "TBA" dates can't be placed on a calendar
+    return null;
+  }
+
+  const description = [
+    ...notes,
+    concert.price && !/^(tba|historical)$/i.test(concert.price) ? `Price: ${concert.price}` : null,
+    concert.ticketUrl ? `Tickets: ${concert.ticketUrl}` : null,
+    url ? `Details: ${url}` : null,
+  ].filter((line): line is string => !!line);
+
+  const lastModified = concert.updatedAt ? new Date(concert.updatedAt) : now;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${concert.id}@concertcritic`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `LAST-MODIFIED:${formatUtc(lastModified)}`,
+    ...timing,
+    `SUMMARY:${escapeText(concert.artist)}`,
+    `LOCATION:${escapeText(`${concert.venue}, ${concert.city}`)}`,
+    ...(description.length > 0 ? [`DESCRIPTION:${escapeText(description.join('\n'))}`] : []),
+    ...(concert.ticketUrl || url ? [`URL:${concert.ticketUrl || url}`] : []),
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Render a full VCALENDAR document. Subscribed calendars are asked to
+ * refresh hourly so wishlist changes show up without re-importing.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildEvent(event, now) ?? []),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A filesystem-safe name for a single concert download
+ */
+export function calendarFileName(concert: Pick<CalendarConcert, 'artist' | 'date'>): string {
+  const slug = concert.artist.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'concert';
+  return `${slug}-${concert.date.slice(0, 10)}.ics`;
+}
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { startReminderScheduler } from "./reminders";
+import { startConcertSyncScheduler } from "./concertSync";
+import { startArtistAlertScheduler } from "./artistAlerts";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +71,23 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Fold together concerts imported from different sources before the matcher existed
+    storage.deduplicateConcerts()
+      .then((merged) => {
+        if (merged > 0) log(`merged ${merged} duplicate concerts`);
+      })
+      .catch((error) => console.error("Error deduplicating concerts:", error));
+
+    // Parse typed start times and prices for concerts stored as plain strings
+    storage.backfillConcertFields()
+      .then((updated) => {
+        if (updated > 0) log(`backfilled structured fields for ${updated} concerts`);
+      })
+      .catch((error) => console.error("Error backfilling concert fields:", error));
+
+    startReminderScheduler();
+    startConcertSyncScheduler();
+    startArtistAlertScheduler();
   });
 })();
@@ -0,0 +1,59 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Outgoing email behind a pluggable transport.
+ *
+ * Nothing here talks to a mail provider: development logs messages to the
+ * console, or writes them as .eml files when MAIL_TRANSPORT=file so they can
+ * be opened in a mail client. A real provider plugs in with setMailTransport.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'ConcertCritic <no-reply@concertcritic.app>';
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.eml`;
+    const contents = [
+      `From: ${process.env.MAIL_FROM || DEFAULT_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+    await writeFile(path.join(this.directory, fileName), contents, 'utf8');
+  }
+}
+
+let transport: MailTransport = process.env.MAIL_TRANSPORT === 'file'
+  ? new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve('.mail-outbox'))
+  : new ConsoleMailTransport();
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
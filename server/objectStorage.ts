@@ -240,11 +240,12 @@ export class ObjectStorageService {
     });
   }
 
-  // Uploads a file to private storage and returns the public path
+  // Uploads a file to private storage on behalf of the given user and returns the public path
   async uploadFile(
     buffer: Buffer,
     mimeType: string,
-    originalName: string
+    originalName: string,
+    owner: string
   ): Promise<string> {
     const privateObjectDir = this.getPrivateObjectDir();
     const fileExtension = originalName.split('.').pop() || 'file';
@@ -263,15 +264,33 @@ export class ObjectStorageService {
       },
     });
 
-    // Set public ACL so the file can be accessed
+    // Set public ACL so the file can be accessed, owned by the uploader
     await setObjectAclPolicy(file, { 
       visibility: "public",
-      owner: "system"
+      owner
     });
 
     // Return normalized path
     return `/objects/uploads/${objectId}`;
   }
+
+  // Deletes an uploaded object if the user owns it. Objects that are already
+  // gone, or that someone else uploaded, are left alone.
+  async deleteObjectEntity(objectPath: string, userId: string): Promise<void> {
+    try {
+      const objectFile = await this.getObjectEntityFile(objectPath);
+      const isOwner = await this.canAccessObjectEntity({
+        userId,
+        objectFile,
+        requestedPermission: ObjectPermission.WRITE,
+      });
+      if (!isOwner) return;
+      await objectFile.delete();
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) return;
+      throw error;
+    }
+  }
 }
 
 function parseObjectPath(path: string): {
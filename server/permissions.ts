@@ -0,0 +1,90 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { userRoles, type Concert, type User, type UserRole } from "@shared/schema";
+
+/**
+ * Roles and concert ownership.
+ *
+ * Roles are ranked user < moderator < admin, and each check accepts the
+ * given role or anything above it. Accounts listed in ADMIN_USER_IDS are
+ * always admins, so a fresh database has someone who can hand out roles.
+ *
+ * Suspended accounts can still sign in and read, but requireActiveAccount
+ * keeps them from posting, and the role and editor checks turn them away too.
+ *
+ * The middleware runs after isAuthenticated and leaves the loaded user (and
+ * concert) in res.locals for the route handler.
+ */
+
+function configuredAdminIds(): string[] {
+  return (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+}
+
+export function getUserRole(user: Pick<User, 'id' | 'role'>): UserRole {
+  if (configuredAdminIds().includes(user.id)) return 'admin';
+  return userRoles.includes(user.role as UserRole) ? user.role as UserRole : 'user';
+}
+
+export function hasRole(user: Pick<User, 'id' | 'role'>, role: UserRole): boolean {
+  return userRoles.indexOf(getUserRole(user)) >= userRoles.indexOf(role);
+}
+
+// Imported shows have no owner, so only moderators can change them
+export function canEditConcert(user: Pick<User, 'id' | 'role'>, concert: Pick<Concert, 'createdBy'>): boolean {
+  return concert.createdBy === user.id || hasRole(user, 'moderator');
+}
+
+async function loadCurrentUser(req: any): Promise<User | undefined> {
+  const userId = req.user?.claims?.sub;
+  return userId ? storage.getUser(userId) : undefined;
+}
+
+export function requireRole(role: UserRole): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await loadCurrentUser(req);
+      if (!user || !hasRole(user, role)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      if (user.suspendedAt) {
+        return res.status(403).json({ error: "Your account is suspended" });
+      }
+      res.locals.currentUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export const requireActiveAccount: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await loadCurrentUser(req);
+    if (user?.suspendedAt) {
+      return res.status(403).json({ error: "Your account is suspended" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requireConcertEditor: RequestHandler = async (req, res, next) => {
+  try {
+    const [user, concert] = await Promise.all([loadCurrentUser(req), storage.getConcert(req.params.id)]);
+    if (!concert) {
+      return res.status(404).json({ error: "Concert not found" });
+    }
+    if (!user || !canEditConcert(user, concert)) {
+      return res.status(403).json({ error: "Only the concert's creator or a moderator can change it" });
+    }
+    if (user.suspendedAt) {
+      return res.status(403).json({ error: "Your account is suspended" });
+    }
+    res.locals.currentUser = user;
+    res.locals.concert = concert;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
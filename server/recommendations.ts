@@ -0,0 +1,96 @@
+import { normalizeName } from "./concertMatching";
+import { haversineKm, type GeoPoint } from "./geo";
+
+/**
+ * Scoring for personalized concert recommendations.
+ *
+ * Storage gathers what we know about a user (genres, ratings, follows,
+ * location) into RecommendationSignals; each candidate concert is scored
+ * against them here. The strongest signal becomes the "because you…" line.
+ */
+
+export interface RecommendationSignals {
+  favoriteGenres: string[];
+  // Normalized artist name -> best overall rating the user gave one of their shows
+  ratedArtists: Map<string, { name: string; rating: number }>;
+  // Normalized artist name -> people the user follows who rated that artist well
+  followeeArtists: Map<string, { name: string; usernames: string[] }>;
+  // Normalized artist names from the user's wishlist
+  wishlistArtists: Map<string, string>;
+  home?: { point: GeoPoint; label: string };
+}
+
+export interface RecommendationScore {
+  score: number;
+  reason: string;
+}
+
+export const HIGH_RATING_THRESHOLD = 4;
+const NEARBY_RADIUS_KM = 25;
+const REGIONAL_RADIUS_KM = 100;
+
+/**
+ * Score one concert, or return null when nothing about it matches the user
+ */
+export function scoreConcert(
+  concert: { artist: string; genre?: string | null; latitude?: number | null; longitude?: number | null },
+  signals: RecommendationSignals,
+): RecommendationScore | null {
+  const artistKey = normalizeName(concert.artist);
+  // Location only counts alongside a taste signal; being close by isn't a reason on its own
+  const contributions: Array<{ weight: number; reason: string; isTaste: boolean }> = [];
+
+  const rated = signals.ratedArtists.get(artistKey);
+  if (rated && rated.rating >= HIGH_RATING_THRESHOLD) {
+    contributions.push({
+      weight: (rated.rating - 3) * 3,
+      reason: `Because you rated ${rated.name} ${rated.rating}★`,
+      isTaste: true,
+    });
+  }
+
+  const followees = signals.followeeArtists.get(artistKey);
+  if (followees && followees.usernames.length > 0) {
+    const [first, ...others] = followees.usernames;
+    contributions.push({
+      weight: Math.min(followees.usernames.length, 3) * 2,
+      reason: others.length === 0
+        ? `Because @${first} rated ${followees.name} highly`
+        : `Because @${first} and ${others.length} other${others.length === 1 ? '' : 's'} you follow rated ${followees.name} highly`,
+      isTaste: true,
+    });
+  }
+
+  const wishlisted = signals.wishlistArtists.get(artistKey);
+  if (wishlisted) {
+    contributions.push({ weight: 2, reason: `Because you saved a ${wishlisted} show`, isTaste: true });
+  }
+
+  const genre = concert.genre?.toLowerCase();
+  const favoriteGenre = genre && signals.favoriteGenres.find(favorite => {
+    const favoriteLower = favorite.toLowerCase();
+    return genre.includes(favoriteLower) || favoriteLower.includes(genre);
+  });
+  if (favoriteGenre) {
+    contributions.push({ weight: 2, reason: `Because you like ${favoriteGenre}`, isTaste: true });
+  }
+
+  if (signals.home && concert.latitude != null && concert.longitude != null) {
+    const distance = haversineKm(signals.home.point, { latitude: concert.latitude, longitude: concert.longitude });
+    if (distance <= REGIONAL_RADIUS_KM) {
+      contributions.push({
+        weight: distance <= NEARBY_RADIUS_KM ? 2 : 1,
+        reason: `Because it's ${Math.round(distance)} km from ${signals.home.label}`,
+        isTaste: false,
+      });
+    }
+  }
+
+  if (!contributions.some(contribution => contribution.isTaste)) return null;
+
+  const strongest = contributions.reduce((best, contribution) => contribution.weight > best.weight ? contribution : best);
+  return {
+    score: contributions.reduce((total, contribution) => total + contribution.weight, 0),
+    reason: strongest.reason,
+  };
+}
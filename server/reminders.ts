@@ -0,0 +1,110 @@
+import { storage, type DueConcertReminder } from "./storage";
+import { sendMail } from "./mail";
+import { log } from "./vite";
+
+/**
+ * Background scheduler for wishlisted-concert reminders.
+ *
+ * Every tick asks storage for wishlist entries whose show is within the
+ * user's reminderDaysBefore window (an "advance" reminder) or happening
+ * today (a "day_of" reminder). Each reminder is claimed in concert_reminders
+ * before anything is sent, so restarts and overlapping ticks stay idempotent;
+ * the claim is released again if the notification can't be created.
+ */
+
+const DEFAULT_INTERVAL_MS = (Number(process.env.REMINDER_INTERVAL_MINUTES) || 15) * 60 * 1000;
+
+function describeReminder({ concert, daysUntil }: DueConcertReminder): { title: string; message: string } {
+  const when = daysUntil === 0
+    ? `tonight${concert.time && concert.time !== 'TBA' ? ` at ${concert.time}` : ''}`
+    : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
+  return {
+    title: daysUntil === 0 ? 'Show day!' : 'Upcoming concert',
+    message: `${concert.artist} plays ${concert.venue}, ${concert.city} ${when}`,
+  };
+}
+
+async function sendReminder(reminder: DueConcertReminder, appUrl?: string): Promise<boolean> {
+  const reminderId = await storage.claimConcertReminder(reminder.userId, reminder.concert.id, reminder.kind);
+  if (!reminderId) return false;
+
+  const { title, message } = describeReminder(reminder);
+  try {
+    await storage.createNotification({
+      userId: reminder.userId,
+      type: 'concert_reminder',
+      title,
+      message,
+      link: `/concerts/${reminder.concert.id}`,
+      relatedConcertId: reminder.concert.id,
+    });
+  } catch (error) {
+    await storage.releaseConcertReminder(reminderId);
+    throw error;
+  }
+
+  if (reminder.email && reminder.emailNotifications) {
+    // A failed email isn't retried; the in-app notification has already gone out
+    try {
+      await sendMail({
+        to: reminder.email,
+        subject: `${title}: ${reminder.concert.artist}`,
+        text: [
+          `${message}.`,
+          reminder.concert.ticketUrl ? `Tickets: ${reminder.concert.ticketUrl}` : null,
+          appUrl ? `Details: ${appUrl}/concerts/${reminder.concert.id}` : null,
+          '',
+          'You are getting this because the show is on your ConcertCritic wishlist. Turn off reminders in Settings.',
+        ].filter(line => line !== null).join('\n'),
+      });
+      await storage.markConcertReminderEmailed(reminderId);
+    } catch (error) {
+      console.error('Error emailing concert reminder:', error);
+    }
+  }
+  return true;
+}
+
+/**
+ * Send every reminder that's due now; returns how many went out
+ */
+export async function runConcertReminders(now: Date = new Date()): Promise<number> {
+  const appUrl = process.env.APP_URL || (process.env.REPLIT_DOMAINS ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}` : undefined);
+  const due = await storage.getDueConcertReminders(now);
+
+  let sent = 0;
+  for (const reminder of due) {
+    try {
+      if (await sendReminder(reminder, appUrl)) sent++;
+    } catch (error) {
+      console.error('Error sending concert reminder:', error);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Run reminders now and then on an interval. Returns a function that stops the scheduler.
+ */
+export function startReminderScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than run two passes at once
+    if (running) return;
+    running = true;
+    try {
+      const sent = await runConcertReminders();
+      if (sent > 0) log(`sent ${sent} concert reminders`);
+    } catch (error) {
+      console.error('Error running concert reminders:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -1,8 +1,14 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage, db } from "./storage";
+import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertConcertSchema, insertReviewSchema, insertUserSchema, insertReviewCommentSchema, concerts } from "@shared/schema";
+import { requireRole, requireConcertEditor, requireActiveAccount, hasRole, canEditConcert, getUserRole } from "./permissions";
+import { getApiCacheStats } from "./apiCache";
+import { parseGeoPoint, DEFAULT_NEAR_RADIUS_KM, MAX_NEAR_RADIUS_KM, type GeoPoint } from "./geo";
+import { buildCalendar, calendarFileName } from "./ical";
+import { TICKETMASTER_ID_PREFIX, SETLISTFM_ID_PREFIX } from "./concertMatching";
+import { userRoles, reportTargetTypes, insertReportSchema, concertEditSchema, insertConcertSchema, insertReviewSchema, insertReviewDraftSchema, insertUserSchema, insertReviewCommentSchema, insertUserSettingsSchema, insertSetlistSchema, insertConcertActSchema, actRatingSchema } from "@shared/schema";
+import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
@@ -15,6 +21,42 @@ function getUserId(req: any): string {
   return req.user?.claims?.sub; // Replit Auth style
 }
 
+const MAX_LINEUP_SIZE = 200;
+const lineupSchema = insertConcertActSchema.array().max(MAX_LINEUP_SIZE);
+const actRatingsSchema = actRatingSchema.array().max(MAX_LINEUP_SIZE);
+
+// Open reports it takes to hide content until a moderator reviews it
+const REPORT_HIDE_THRESHOLD = Number(process.env.REPORT_HIDE_THRESHOLD) || 3;
+const reportTargetTypeSchema = z.enum(reportTargetTypes);
+
+// Deletes the user's uploads that nothing uses anymore, e.g. photos from a discarded draft
+async function deleteOrphanedPhotos(paths: string[], userId: string): Promise<void> {
+  const uploads = paths.filter(path => path.startsWith("/objects/uploads/"));
+  const orphaned = await storage.getUnreferencedPhotos(uploads);
+  const objectStorageService = new ObjectStorageService();
+  for (const path of orphaned) {
+    try {
+      await objectStorageService.deleteObjectEntity(path, userId);
+    } catch (error) {
+      console.error(`Error deleting orphaned photo ${path}:`, error);
+    }
+  }
+}
+
+// Trending windows in days; anything that isn't a positive whole number falls
+// back to storage's default window, and long windows are capped
+const MAX_TRENDING_WINDOW_DAYS = 365;
+const trendingWindowSchema = z.coerce.number().int().positive().transform(days => Math.min(days, MAX_TRENDING_WINDOW_DAYS));
+
+function parseTrendingWindow(value: unknown): number | undefined {
+  const result = trendingWindowSchema.safeParse(value);
+  return result.success ? result.data : undefined;
+}
+
+function getAppOrigin(req: any): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
 // Configure multer for handling file uploads in memory
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -40,7 +82,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      res.json(user && { ...user, role: getUserRole(user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -52,7 +94,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      res.json(user && { ...user, role: getUserRole(user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -62,7 +104,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Note: /api/register, /api/login, /api/logout routes are handled in setupAuth
 
   // File upload route for review media (photos/videos)
-  app.post("/api/upload", isAuthenticated, upload.array('files', 5), async (req: any, res) => {
+  app.post("/api/upload", isAuthenticated, requireActiveAccount, upload.array('files', 5), async (req: any, res) => {
     try {
       const userId = getUserId(req);
       if (!userId) {
@@ -82,7 +124,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const path = await objectStorageService.uploadFile(
             file.buffer,
             file.mimetype,
-            file.originalname
+            file.originalname,
+            userId
           );
           uploadedPaths.push(path);
         } catch (error) {
@@ -102,7 +145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile image upload route (single file)
-  app.post("/api/upload/profile-image", isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post("/api/upload/profile-image", isAuthenticated, requireActiveAccount, upload.single('file'), async (req: any, res) => {
     try {
       const userId = getUserId(req);
       if (!userId) {
@@ -124,7 +167,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const path = await objectStorageService.uploadFile(
         file.buffer,
         file.mimetype,
-        file.originalname
+        file.originalname,
+        userId
       );
 
       res.json({ url: path });
@@ -137,19 +181,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Concert discovery and search API with Ticketmaster and Setlist.fm integration (public endpoints)
   app.get("/api/concerts", async (req, res) => {
     try {
-      const { search, genre, city, limit, offset, includeTicketmaster, includeHistorical, startDate, endDate } = req.query;
-      const concerts = await storage.getConcertsWithHistorical({
+      const { search, genre, city, limit, cursor, includeTicketmaster, includeHistorical, startDate, endDate, minPrice, maxPrice, near, radiusKm } = req.query;
+
+      // near is "lat,lon", or "me" to use the signed-in user's profile location
+      let nearPoint: GeoPoint | undefined;
+      if (near === 'me') {
+        const userId = getUserId(req);
+        const user = userId ? await storage.getUser(userId) : undefined;
+        if (!user?.location) {
+          return res.status(400).json({ error: "Set a location in your profile to search near you" });
+        }
+        const coordinates = await storage.getLocationCoordinates(user.location);
+        if (!coordinates) {
+          return res.status(400).json({ error: `Couldn't find coordinates for ${user.location}` });
+        }
+        nearPoint = coordinates;
+      } else if (near) {
+        const parsed = parseGeoPoint(near as string);
+        if (!parsed) {
+          return res.status(400).json({ error: "near must be \"lat,lon\" or \"me\"" });
+        }
+        nearPoint = parsed;
+      }
+
+      const page = await storage.searchConcerts({
         search: search as string,
         genre: genre as string,
         city: city as string,
-        limit: limit ? parseInt(limit as string) : undefined,
-        offset: offset ? parseInt(offset as string) : undefined,
+        limit: limit ? Math.min(parseInt(limit as string), 100) : undefined,
+        cursor: cursor as string,
         includeTicketmaster: includeTicketmaster === 'true',
         includeHistorical: includeHistorical === 'true',
         startDate: startDate as string,
         endDate: endDate as string,
+        minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
+        maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+        near: nearPoint,
+        radiusKm: radiusKm
+          ? Math.min(parseFloat(radiusKm as string) || DEFAULT_NEAR_RADIUS_KM, MAX_NEAR_RADIUS_KM)
+          : undefined,
       });
-      res.json(concerts);
+      res.json(page);
     } catch (error) {
       console.error("Error fetching concerts:", error);
       res.status(500).json({ error: "Failed to fetch concerts" });
@@ -211,6 +283,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/setlistfm/events/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const event = await storage.getSetlistFmEvent(id);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error("Error fetching Setlist.fm event:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Concerts ranked by recent review and wishlist activity (public)
+  app.get("/api/concerts/trending", async (req, res) => {
+    try {
+      const { limit, window } = req.query;
+      const concerts = await storage.getTrendingConcerts({
+        limit: limit ? parseInt(limit as string) : undefined,
+        windowDays: parseTrendingWindow(window),
+      });
+      res.json(concerts);
+    } catch (error) {
+      console.error("Error fetching trending concerts:", error);
+      res.status(500).json({ error: "Failed to fetch trending concerts" });
+    }
+  });
+
+  // Upcoming concerts picked for the signed-in user, each with a "because you…" reason
+  app.get("/api/recommendations/concerts", isAuthenticated, async (req, res) => {
+    try {
+      const { limit } = req.query;
+      const recommendations = await storage.getConcertRecommendations(getUserId(req), {
+        limit: limit ? Math.min(parseInt(limit as string) || 12, 50) : undefined,
+      });
+      res.json(recommendations);
+    } catch (error) {
+      console.error("Error fetching concert recommendations:", error);
+      res.status(500).json({ error: "Failed to fetch recommendations" });
+    }
+  });
+
   app.get("/api/concerts/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -218,24 +333,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!concert) {
         return res.status(404).json({ error: "Concert not found" });
       }
-      res.json(concert);
+      const userId = getUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      res.json({ ...concert, canEdit: !!user && canEditConcert(user, concert) });
     } catch (error) {
       console.error("Error fetching concert:", error);
       res.status(500).json({ error: "Failed to fetch concert" });
     }
   });
 
+  // One-off .ics download; external events that aren't stored yet come straight from their API
+  app.get("/api/concerts/:id/calendar.ics", async (req, res) => {
+    try {
+      const { id } = req.params;
+      let concert = await storage.getConcert(id);
+      if (!concert && id.startsWith(TICKETMASTER_ID_PREFIX)) {
+        concert = await storage.getTicketmasterEvent(id.slice(TICKETMASTER_ID_PREFIX.length));
+      } else if (!concert && id.startsWith(SETLISTFM_ID_PREFIX)) {
+        concert = await storage.getSetlistFmEvent(id.slice(SETLISTFM_ID_PREFIX.length));
+      }
+      if (!concert) {
+        return res.status(404).json({ error: "Concert not found" });
+      }
+
+      const calendar = buildCalendar(concert.artist, [
+        { concert, url: `${getAppOrigin(req)}/concerts/${concert.id}` },
+      ]);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${calendarFileName(concert)}"`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error exporting concert calendar:", error);
+      res.status(500).json({ error: "Failed to export concert" });
+    }
+  });
+
   // Protected concert management (authenticated users only)
-  app.post("/api/concerts", isAuthenticated, async (req, res) => {
+  app.post("/api/concerts", isAuthenticated, requireActiveAccount, async (req, res) => {
     try {
-      const validation = insertConcertSchema.safeParse(req.body);
+      const { lineup, ...concertBody } = req.body;
+      // The creator owns the concert, whatever the client sends
+      const validation = insertConcertSchema.safeParse({ ...concertBody, createdBy: getUserId(req) });
       if (!validation.success) {
         return res.status(400).json({
           error: "Invalid concert data",
           details: fromZodError(validation.error).toString(),
         });
       }
-      const concert = await storage.createConcert(validation.data);
+      const lineupValidation = lineupSchema.optional().safeParse(lineup);
+      if (!lineupValidation.success) {
+        return res.status(400).json({
+          error: "Invalid lineup",
+          details: fromZodError(lineupValidation.error).toString(),
+        });
+      }
+      const concert = await storage.createConcert(validation.data, undefined, lineupValidation.data);
       res.status(201).json(concert);
     } catch (error) {
       console.error("Error creating concert:", error);
@@ -243,31 +395,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/concerts/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/concerts/:id", isAuthenticated, requireConcertEditor, async (req, res) => {
     try {
-      const { id } = req.params;
-      const validation = insertConcertSchema.partial().safeParse(req.body);
+      const validation = insertConcertSchema.omit({ createdBy: true }).partial().safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Invalid concert data",
           details: fromZodError(validation.error).toString(),
         });
       }
-      const concert = await storage.updateConcert(id, validation.data);
-      if (!concert) {
+      const result = await storage.editConcert(res.locals.concert.id, validation.data, res.locals.currentUser.id);
+      if (!result) {
         return res.status(404).json({ error: "Concert not found" });
       }
-      res.json(concert);
+      res.json(result.concert);
     } catch (error) {
       console.error("Error updating concert:", error);
       res.status(500).json({ error: "Failed to update concert" });
     }
   });
 
-  app.delete("/api/concerts/:id", isAuthenticated, async (req, res) => {
+  // Concerts without reviews are removed outright by their creator or a moderator.
+  // Once people have reviewed a show, only an admin can remove it, and only as
+  // a soft delete so the reviews stay on their authors' profiles.
+  app.delete("/api/concerts/:id", isAuthenticated, requireConcertEditor, async (req, res) => {
     try {
-      const { id } = req.params;
-      const success = await storage.deleteConcert(id);
+      const concert = res.locals.concert;
+      const reviewCount = await storage.getConcertReviewCount(concert.id);
+      if (reviewCount === 0) {
+        await storage.deleteConcert(concert.id);
+        return res.status(204).send();
+      }
+
+      if (!hasRole(res.locals.currentUser, "admin")) {
+        return res.status(403).json({ error: "Only an admin can delete a concert that has reviews" });
+      }
+      const success = await storage.softDeleteConcert(concert.id, res.locals.currentUser.id);
       if (!success) {
         return res.status(404).json({ error: "Concert not found" });
       }
@@ -278,14 +441,306 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit proposals - anyone can suggest changes, the owner or a moderator decides
+  app.get("/api/concerts/:id/proposals", async (req, res) => {
+    try {
+      const proposals = await storage.getConcertEditProposals(req.params.id, {
+        pendingOnly: req.query.status === "pending",
+      });
+      res.json(proposals);
+    } catch (error) {
+      console.error("Error fetching edit proposals:", error);
+      res.status(500).json({ error: "Failed to fetch edit proposals" });
+    }
+  });
+
+  app.post("/api/concerts/:id/proposals", isAuthenticated, requireActiveAccount, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        changes: concertEditSchema,
+        note: z.string().trim().max(500).nullable().optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid edit proposal",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const concert = await storage.getConcert(req.params.id);
+      if (!concert) {
+        return res.status(404).json({ error: "Concert not found" });
+      }
+      const proposal = await storage.createConcertEditProposal(concert.id, getUserId(req), validation.data.changes, validation.data.note);
+      if (!proposal) {
+        return res.status(400).json({ error: "The proposal doesn't change anything" });
+      }
+      res.status(201).json(proposal);
+    } catch (error) {
+      console.error("Error creating edit proposal:", error);
+      res.status(500).json({ error: "Failed to create edit proposal" });
+    }
+  });
+
+  app.post("/api/concerts/:id/proposals/:proposalId/:decision(accept|reject)", isAuthenticated, requireConcertEditor, async (req, res) => {
+    try {
+      const proposal = await storage.getConcertEditProposal(req.params.proposalId);
+      if (!proposal || proposal.concertId !== res.locals.concert.id) {
+        return res.status(404).json({ error: "Edit proposal not found" });
+      }
+
+      const result = await storage.reviewConcertEditProposal(proposal.id, res.locals.currentUser.id, req.params.decision === "accept");
+      if (!result) {
+        return res.status(409).json({ error: "This proposal has already been reviewed" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error reviewing edit proposal:", error);
+      res.status(500).json({ error: "Failed to review edit proposal" });
+    }
+  });
+
+  // Revision history of applied edits, newest first
+  app.get("/api/concerts/:id/revisions", async (req, res) => {
+    try {
+      const revisions = await storage.getConcertRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching concert revisions:", error);
+      res.status(500).json({ error: "Failed to fetch concert revisions" });
+    }
+  });
+
+  app.post("/api/concerts/:id/revisions/:revisionId/revert", isAuthenticated, requireConcertEditor, async (req, res) => {
+    try {
+      const revision = await storage.getConcertRevision(req.params.revisionId);
+      if (!revision || revision.concertId !== res.locals.concert.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const result = await storage.revertConcertRevision(revision.id, res.locals.currentUser.id);
+      if (!result) {
+        return res.status(404).json({ error: "Concert not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error reverting concert revision:", error);
+      res.status(500).json({ error: "Failed to revert revision" });
+    }
+  });
+
+  // Lineups - headliner, support acts and festival days, with per-act ratings from reviews
+  app.get("/api/concerts/:id/lineup", async (req, res) => {
+    try {
+      const lineup = await storage.getConcertLineup(req.params.id);
+      res.json(lineup);
+    } catch (error) {
+      console.error("Error fetching lineup:", error);
+      res.status(500).json({ error: "Failed to fetch lineup" });
+    }
+  });
+
+  app.put("/api/concerts/:id/lineup", isAuthenticated, requireConcertEditor, async (req, res) => {
+    try {
+      const concert = res.locals.concert;
+      const validation = lineupSchema.safeParse(req.body.acts);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid lineup",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const lineup = await storage.setConcertLineup(concert.id, validation.data);
+      res.json(lineup);
+    } catch (error) {
+      console.error("Error updating lineup:", error);
+      res.status(500).json({ error: "Failed to update lineup" });
+    }
+  });
+
+  // Setlists API - Setlist.fm imports are read-only, user submissions can be edited
+  app.get("/api/concerts/:id/setlist", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const setlist = await storage.getSetlistForConcert(id);
+      if (!setlist) {
+        return res.status(404).json({ error: "Setlist not found" });
+      }
+      res.json(setlist);
+    } catch (error) {
+      console.error("Error fetching setlist:", error);
+      res.status(500).json({ error: "Failed to fetch setlist" });
+    }
+  });
+
+  app.put("/api/concerts/:id/setlist", isAuthenticated, requireActiveAccount, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const validation = insertSetlistSchema
+        .pick({ songs: true, encoreSongs: true, notes: true })
+        .safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid setlist data",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const concert = await storage.getConcert(id);
+      if (!concert) {
+        return res.status(404).json({ error: "Concert not found" });
+      }
+
+      const existing = await storage.getSetlistForConcert(id);
+      if (existing?.source === 'setlistfm') {
+        return res.status(409).json({ error: "Setlist.fm setlists can't be edited" });
+      }
+
+      // Anyone can add a missing setlist; changing one is up to its submitter and the concert's editors
+      const userId = getUserId(req);
+      if (existing && existing.submittedBy !== userId) {
+        const user = await storage.getUser(userId);
+        if (!user || !canEditConcert(user, concert)) {
+          return res.status(403).json({ error: "Only the setlist's submitter or the concert's editors can change it" });
+        }
+      }
+
+      const setlist = await storage.saveUserSetlist(id, validation.data, userId);
+      res.json(setlist);
+    } catch (error) {
+      console.error("Error saving setlist:", error);
+      res.status(500).json({ error: "Failed to save setlist" });
+    }
+  });
+
+  // Artist pages API (public reads, authenticated follows)
+  app.get("/api/artists/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const artist = await storage.getArtistWithStats(id, getUserId(req));
+      if (!artist) {
+        return res.status(404).json({ error: "Artist not found" });
+      }
+      res.json(artist);
+    } catch (error) {
+      console.error("Error fetching artist:", error);
+      res.status(500).json({ error: "Failed to fetch artist" });
+    }
+  });
+
+  app.get("/api/artists/:id/concerts", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const concerts = await storage.getConcerts({ artistId: id, limit: 100 });
+      res.json(concerts);
+    } catch (error) {
+      console.error("Error fetching artist concerts:", error);
+      res.status(500).json({ error: "Failed to fetch artist concerts" });
+    }
+  });
+
+  app.get("/api/artists/:id/reviews", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { limit } = req.query;
+      const reviews = await storage.getTopReviewsForArtist(
+        id,
+        getUserId(req),
+        limit ? parseInt(limit as string) : undefined,
+      );
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching artist reviews:", error);
+      res.status(500).json({ error: "Failed to fetch artist reviews" });
+    }
+  });
+
+  app.post("/api/artists/:id/follow", isAuthenticated, requireActiveAccount, async (req: any, res) => {
+    try {
+      const { id: artistId } = req.params;
+      const userId = getUserId(req);
+
+      const artist = await storage.getArtist(artistId);
+      if (!artist) {
+        return res.status(404).json({ error: "Artist not found" });
+      }
+
+      const follow = await storage.followArtist({ userId, artistId });
+      res.status(201).json(follow);
+    } catch (error) {
+      console.error("Error following artist:", error);
+      res.status(500).json({ error: "Failed to follow artist" });
+    }
+  });
+
+  app.delete("/api/artists/:id/follow", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: artistId } = req.params;
+      const userId = getUserId(req);
+
+      const success = await storage.unfollowArtist(userId, artistId);
+      if (!success) {
+        return res.status(404).json({ error: "Artist follow not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unfollowing artist:", error);
+      res.status(500).json({ error: "Failed to unfollow artist" });
+    }
+  });
+
+  // Venue search and detail API (public endpoints)
+  app.get("/api/venues", async (req, res) => {
+    try {
+      const { q, city, limit } = req.query;
+      const venues = await storage.searchVenues({
+        query: q as string,
+        city: city as string,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(venues);
+    } catch (error) {
+      console.error("Error searching venues:", error);
+      res.status(500).json({ error: "Failed to search venues" });
+    }
+  });
+
+  app.get("/api/venues/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const venue = await storage.getVenueWithStats(id);
+      if (!venue) {
+        return res.status(404).json({ error: "Venue not found" });
+      }
+      res.json(venue);
+    } catch (error) {
+      console.error("Error fetching venue:", error);
+      res.status(500).json({ error: "Failed to fetch venue" });
+    }
+  });
+
+  app.get("/api/venues/:id/concerts", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const concerts = await storage.getConcerts({ venueId: id, limit: 100 });
+      res.json(concerts);
+    } catch (error) {
+      console.error("Error fetching venue concerts:", error);
+      res.status(500).json({ error: "Failed to fetch venue concerts" });
+    }
+  });
+
   // Reviews API - General reviews endpoint for timeline/feed (public endpoint)
   app.get("/api/reviews", async (req, res) => {
     try {
-      const { limit, offset, sort } = req.query;
+      const { limit, offset, sort, window } = req.query;
       const reviews = await storage.getAllReviews({
         limit: limit ? parseInt(limit as string) : undefined,
         offset: offset ? parseInt(offset as string) : undefined,
-        sort: sort as 'recent' | 'rating' | 'oldest' || 'recent',
+        sort: sort as 'recent' | 'rating' | 'oldest' | 'trending' || 'recent',
+        windowDays: parseTrendingWindow(window),
+        currentUserId: getUserId(req),
       });
       res.json(reviews);
     } catch (error) {
@@ -294,6 +749,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Personalized timeline - reviews from followed users and artists, newest first
+  app.get("/api/feed", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { limit, cursor } = req.query;
+      const feed = await storage.getFeed(userId, {
+        limit: limit ? Math.min(parseInt(limit as string), 50) : undefined,
+        cursor: cursor as string | undefined,
+      });
+      res.json(feed);
+    } catch (error) {
+      console.error("Error fetching feed:", error);
+      res.status(500).json({ error: "Failed to fetch feed" });
+    }
+  });
+
   // Reviews API - Mixed public/protected routes
   app.get("/api/concerts/:concertId/reviews", async (req, res) => {
     try {
@@ -321,6 +792,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         currentUserId = getUserId(req);
       }
       
+      if (!(await storage.canViewUserContent(currentUserId, userId))) {
+        return res.status(403).json({ error: "This account is private" });
+      }
+
       const reviews = await storage.getReviewsForUser(userId, currentUserId);
       res.json(reviews);
     } catch (error) {
@@ -330,7 +805,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Protected review operations
-  app.post("/api/reviews", isAuthenticated, async (req: any, res) => {
+  app.post("/api/reviews", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const userId = getUserId(req); // Get user ID from authenticated session
       
@@ -340,18 +815,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Extract concert data if provided (for concerts not yet in database)
-      const { concert, ...reviewBody } = req.body;
+      const { concert, actRatings, ...reviewBody } = req.body;
+
+      const actRatingsValidation = actRatingsSchema.optional().safeParse(actRatings);
+      if (!actRatingsValidation.success) {
+        return res.status(400).json({
+          error: "Invalid act ratings",
+          details: fromZodError(actRatingsValidation.error).toString(),
+        });
+      }
       
+      // Removed concerts stay removed rather than being recreated from the posted details
+      const requestedConcertId = concert?.id ?? reviewBody.concertId;
+      if (typeof requestedConcertId === 'string' && await storage.isConcertDeleted(requestedConcertId)) {
+        return res.status(410).json({ error: "This concert has been removed" });
+      }
+
       // If concert data is provided, ensure it exists in database
       if (concert) {
         const concertId = concert.id;
-        const existingConcert = await storage.getConcert(concertId);
+        let storedConcert = await storage.getConcert(concertId);
         
         // Create concert if it doesn't exist
-        if (!existingConcert) {
+        if (!storedConcert) {
           console.log(`Creating concert with ID ${concertId} before review creation`);
-          await db.insert(concerts).values({
-            id: concertId,
+          storedConcert = await storage.createConcert({
             artist: concert.artist,
             venue: concert.venue,
             city: concert.city,
@@ -362,10 +850,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             imageUrl: concert.imageUrl || null,
             ticketUrl: concert.ticketUrl || null,
             description: concert.description || null,
-          });
+            timezone: concert.timezone || null,
+            latitude: concert.latitude ?? null,
+            longitude: concert.longitude ?? null,
+            status: concert.status || undefined,
+            endDate: concert.endDate || null,
+            isFestival: !!concert.isFestival,
+          }, concertId, lineupSchema.safeParse(concert.lineup).data);
+        }
+
+        // Reviewing a historical show pulls its Setlist.fm setlist in alongside it
+        if (concertId.startsWith('setlistfm_')) {
+          try {
+            await storage.getSetlistForConcert(concertId);
+          } catch (error) {
+            console.error("Error importing setlist:", error);
+          }
         }
+
+        // The same show may already be stored under another source's id
+        reviewBody.concertId = storedConcert.id;
       }
-      
+
       const validation = insertReviewSchema.safeParse({
         ...reviewBody,
         userId, // Override any client-provided userId with authenticated user
@@ -378,6 +884,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       const review = await storage.createReview(validation.data);
+      if (actRatingsValidation.data?.length) {
+        await storage.setReviewActRatings(review.id, review.concertId, actRatingsValidation.data);
+      }
+      // The draft was saved under the id the concert was picked with
+      await storage.deleteReviewDraftsForConcert(userId, Array.from(new Set([concert?.id, review.concertId].filter(Boolean))));
       res.status(201).json(review);
     } catch (error) {
       console.error("Error creating review:", error);
@@ -385,7 +896,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/reviews/:id", isAuthenticated, async (req: any, res) => {
+  // Review drafts - autosaved by the review dialog, one per concert
+  app.get("/api/reviews/drafts", isAuthenticated, async (req: any, res) => {
+    try {
+      const drafts = await storage.getReviewDrafts(getUserId(req));
+      res.json(drafts);
+    } catch (error) {
+      console.error("Error fetching review drafts:", error);
+      res.status(500).json({ error: "Failed to fetch review drafts" });
+    }
+  });
+
+  app.get("/api/reviews/drafts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const draft = await storage.getReviewDraft(getUserId(req), req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      res.json(draft);
+    } catch (error) {
+      console.error("Error fetching review draft:", error);
+      res.status(500).json({ error: "Failed to fetch review draft" });
+    }
+  });
+
+  // Creates the draft for the concert, or replaces it if there already is one
+  app.put("/api/reviews/drafts", isAuthenticated, requireActiveAccount, async (req: any, res) => {
+    try {
+      const validation = insertReviewDraftSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid review draft",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const userId = getUserId(req);
+      const { draft, droppedPhotos } = await storage.saveReviewDraft(userId, validation.data);
+      await deleteOrphanedPhotos(droppedPhotos, userId);
+      res.json(draft);
+    } catch (error) {
+      console.error("Error saving review draft:", error);
+      res.status(500).json({ error: "Failed to save review draft" });
+    }
+  });
+
+  app.delete("/api/reviews/drafts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const draft = await storage.deleteReviewDraft(userId, req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      await deleteOrphanedPhotos(draft.photos, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting review draft:", error);
+      res.status(500).json({ error: "Failed to delete review draft" });
+    }
+  });
+
+  // A single review with its concert and act ratings, e.g. to prefill the edit dialog
+  app.get("/api/reviews/:id", async (req: any, res) => {
+    try {
+      const review = await storage.getReview(req.params.id);
+      if (!review || review.hiddenAt || !(await storage.canViewUserContent(getUserId(req), review.userId))) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      const [concert, actRatings] = await Promise.all([
+        storage.getConcert(review.concertId),
+        storage.getReviewActRatings(review.id),
+      ]);
+      res.json({ ...review, concert, actRatings });
+    } catch (error) {
+      console.error("Error fetching review:", error);
+      res.status(500).json({ error: "Failed to fetch review" });
+    }
+  });
+
+  // Earlier versions of an edited review, newest first
+  app.get("/api/reviews/:id/revisions", async (req: any, res) => {
+    try {
+      const review = await storage.getReview(req.params.id);
+      if (!review || review.hiddenAt || !(await storage.canViewUserContent(getUserId(req), review.userId))) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      const revisions = await storage.getReviewRevisions(review.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching review revisions:", error);
+      res.status(500).json({ error: "Failed to fetch review revisions" });
+    }
+  });
+
+  app.put("/api/reviews/:id", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = getUserId(req);
@@ -399,15 +1005,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "You can only edit your own reviews" });
       }
 
-      const validation = insertReviewSchema.partial().safeParse(req.body);
+      const { actRatings, ...reviewBody } = req.body;
+      const validation = insertReviewSchema.partial().safeParse(reviewBody);
       if (!validation.success) {
         return res.status(400).json({
           error: "Invalid review data",
           details: fromZodError(validation.error).toString(),
         });
       }
+      const actRatingsValidation = actRatingsSchema.optional().safeParse(actRatings);
+      if (!actRatingsValidation.success) {
+        return res.status(400).json({
+          error: "Invalid act ratings",
+          details: fromZodError(actRatingsValidation.error).toString(),
+        });
+      }
       
       const review = await storage.updateReview(id, validation.data);
+      if (review && actRatingsValidation.data) {
+        await storage.setReviewActRatings(review.id, review.concertId, actRatingsValidation.data);
+      }
       res.json(review);
     } catch (error) {
       console.error("Error updating review:", error);
@@ -438,7 +1055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Review likes API - SECURITY FIX: No more userId in request body
-  app.post("/api/reviews/:reviewId/like", isAuthenticated, async (req: any, res) => {
+  app.post("/api/reviews/:reviewId/like", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const { reviewId } = req.params;
       const userId = getUserId(req); // Get user ID from authenticated session
@@ -508,7 +1125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reviews/:reviewId/comments", isAuthenticated, async (req: any, res) => {
+  app.post("/api/reviews/:reviewId/comments", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const { reviewId } = req.params;
       const userId = getUserId(req);
@@ -550,6 +1167,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Global search across concerts, artists, venues, users and review text (public)
+  app.get("/api/search", async (req, res) => {
+    try {
+      const { q, limit } = req.query;
+      if (!q || typeof q !== "string" || q.trim().length < 2) {
+        return res.status(400).json({ error: "Search query must be at least 2 characters" });
+      }
+      const results = await storage.search(q.trim().slice(0, 100), {
+        currentUserId: getUserId(req),
+        limit: limit ? Math.min(parseInt(limit as string) || 5, 20) : undefined,
+      });
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ error: "Failed to search" });
+    }
+  });
+
   // User management API 
   app.get("/api/users/search", async (req, res) => {
     try {
@@ -618,7 +1253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile management - authenticated user only
-  app.put("/api/users/me", isAuthenticated, async (req: any, res) => {
+  app.put("/api/users/me", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       
@@ -680,6 +1315,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User settings API - notification preferences and theme
+  app.get("/api/users/me/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const settings = await storage.getUserSettings(userId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching user settings:", error);
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/users/me/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const validation = insertUserSettingsSchema.omit({ userId: true }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid settings data",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+      const settings = await storage.updateUserSettings(userId, validation.data);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating user settings:", error);
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // Calendar feed - calendar apps can't sign in, so the feed also accepts the
+  // user's secret token in place of a session
+  app.get("/api/users/me/calendar.ics", async (req: any, res) => {
+    try {
+      const { token } = req.query;
+      const userId = typeof token === "string"
+        ? await storage.getUserIdByCalendarToken(token)
+        : getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({ error: "Invalid or missing calendar token" });
+      }
+
+      const origin = getAppOrigin(req);
+      const entries = await storage.getCalendarConcerts(userId);
+      const calendar = buildCalendar("ConcertCritic", entries.map(({ concert, wishlisted, rating }) => ({
+        concert,
+        notes: [
+          wishlisted ? "On your wishlist" : null,
+          rating !== null ? `You rated this show ${rating}★` : null,
+        ].filter((note): note is string => !!note),
+        url: `${origin}/concerts/${concert.id}`,
+      })));
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  app.get("/api/users/me/calendar", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await storage.getCalendarToken(getUserId(req));
+      res.json({ url: `${getAppOrigin(req)}/api/users/me/calendar.ics?token=${token}` });
+    } catch (error) {
+      console.error("Error fetching calendar feed URL:", error);
+      res.status(500).json({ error: "Failed to fetch calendar feed URL" });
+    }
+  });
+
+  app.post("/api/users/me/calendar/reset", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await storage.getCalendarToken(getUserId(req), { reset: true });
+      res.json({ url: `${getAppOrigin(req)}/api/users/me/calendar.ics?token=${token}` });
+    } catch (error) {
+      console.error("Error resetting calendar feed URL:", error);
+      res.status(500).json({ error: "Failed to reset calendar feed URL" });
+    }
+  });
+
   // Wishlist API - SECURITY FIX: Always use authenticated user
   app.get("/api/users/me/wishlist", isAuthenticated, async (req: any, res) => {
     try {
@@ -697,7 +1425,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users/me/wishlist/:concertId", isAuthenticated, async (req: any, res) => {
+  app.post("/api/users/me/wishlist/:concertId", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const userId = getUserId(req);
       const { concertId } = req.params;
@@ -730,8 +1458,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/users/:userId/wishlist", async (req, res) => {
+    try {
+      const { userId } = req.params;
+      if (!(await storage.canViewUserContent(getUserId(req), userId))) {
+        return res.status(403).json({ error: "This account is private" });
+      }
+      const wishlist = await storage.getUserWishlist(userId);
+      res.json(wishlist);
+    } catch (error) {
+      console.error("Error fetching wishlist:", error);
+      res.status(500).json({ error: "Failed to fetch wishlist" });
+    }
+  });
+
   // Social features API - SECURITY FIX: Always use authenticated user
-  app.post("/api/users/:userId/follow", isAuthenticated, async (req: any, res) => {
+  app.post("/api/users/:userId/follow", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const { userId: followingId } = req.params;
       const followerId = getUserId(req); // Get from auth session, not request body
@@ -767,6 +1509,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users/:userId/followers", async (req, res) => {
     try {
       const { userId } = req.params;
+      if (!(await storage.canViewUserContent(getUserId(req), userId))) {
+        return res.status(403).json({ error: "This account is private" });
+      }
       const followers = await storage.getFollowers(userId);
       res.json(followers);
     } catch (error) {
@@ -778,6 +1523,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users/:userId/following", async (req, res) => {
     try {
       const { userId } = req.params;
+      if (!(await storage.canViewUserContent(getUserId(req), userId))) {
+        return res.status(403).json({ error: "This account is private" });
+      }
       const following = await storage.getFollowing(userId);
       res.json(following);
     } catch (error) {
@@ -786,6 +1534,271 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Follow requests for private accounts - only the account owner can respond
+  app.get("/api/users/me/follow-requests", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const requests = await storage.getFollowRequests(userId);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching follow requests:", error);
+      res.status(500).json({ error: "Failed to fetch follow requests" });
+    }
+  });
+
+  app.post("/api/users/me/follow-requests/:followerId/approve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { followerId } = req.params;
+      const success = await storage.respondToFollowRequest(userId, followerId, true);
+      if (!success) {
+        return res.status(404).json({ error: "Follow request not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error approving follow request:", error);
+      res.status(500).json({ error: "Failed to approve follow request" });
+    }
+  });
+
+  app.post("/api/users/me/follow-requests/:followerId/deny", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { followerId } = req.params;
+      const success = await storage.respondToFollowRequest(userId, followerId, false);
+      if (!success) {
+        return res.status(404).json({ error: "Follow request not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error denying follow request:", error);
+      res.status(500).json({ error: "Failed to deny follow request" });
+    }
+  });
+
+  // Notifications API - always scoped to the authenticated user
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const { limit, offset, unreadOnly } = req.query;
+      const notifications = await storage.getNotifications(userId, {
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+        unreadOnly: unreadOnly === 'true',
+      });
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const count = await storage.getUnreadNotificationsCount(userId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error fetching unread notifications count:", error);
+      res.status(500).json({ error: "Failed to fetch unread notifications count" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const updated = await storage.markAllNotificationsRead(userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = getUserId(req);
+      const success = await storage.markNotificationRead(id, userId);
+      if (!success) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ error: "Failed to mark notification as read" });
+    }
+  });
+
+  // Reports - anyone signed in can flag a review, comment or profile
+  app.post("/api/reports", isAuthenticated, requireActiveAccount, async (req: any, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = insertReportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid report",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const { targetType, targetId } = validation.data;
+      const authorId = await storage.getReportTargetAuthorId(targetType, targetId);
+      if (!authorId) {
+        return res.status(404).json({ error: "Reported content not found" });
+      }
+      if (authorId === userId) {
+        return res.status(400).json({ error: "You can't report your own content" });
+      }
+
+      const result = await storage.createReport(userId, validation.data, REPORT_HIDE_THRESHOLD);
+      if (!result) {
+        return res.status(409).json({ error: "You already reported this" });
+      }
+      res.status(201).json(result.report);
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ error: "Failed to submit report" });
+    }
+  });
+
+  // Moderation queue
+  app.get("/api/moderation/reports", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const status = req.query.status === "resolved" ? "resolved" : "open";
+      const queue = await storage.getModerationQueue({ status });
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ error: "Failed to fetch moderation queue" });
+    }
+  });
+
+  // Dismissing closes the reports and brings back anything they auto-hid
+  app.post("/api/moderation/:targetType/:targetId/dismiss", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const targetType = reportTargetTypeSchema.safeParse(req.params.targetType);
+      if (!targetType.success) {
+        return res.status(400).json({ error: "Invalid target type" });
+      }
+      const resolved = await storage.resolveReports(targetType.data, req.params.targetId, res.locals.currentUser.id, "dismissed");
+      await storage.setContentHidden(targetType.data, req.params.targetId, false);
+      res.json({ resolved });
+    } catch (error) {
+      console.error("Error dismissing reports:", error);
+      res.status(500).json({ error: "Failed to dismiss reports" });
+    }
+  });
+
+  app.post("/api/moderation/:targetType/:targetId/hide", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const targetType = reportTargetTypeSchema.safeParse(req.params.targetType);
+      if (!targetType.success) {
+        return res.status(400).json({ error: "Invalid target type" });
+      }
+      if (!(await storage.getReportTargetAuthorId(targetType.data, req.params.targetId))) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      await storage.setContentHidden(targetType.data, req.params.targetId, true);
+      const resolved = await storage.resolveReports(targetType.data, req.params.targetId, res.locals.currentUser.id, "actioned");
+      res.json({ resolved });
+    } catch (error) {
+      console.error("Error hiding content:", error);
+      res.status(500).json({ error: "Failed to hide content" });
+    }
+  });
+
+  app.post("/api/moderation/:targetType/:targetId/restore", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const targetType = reportTargetTypeSchema.safeParse(req.params.targetType);
+      if (!targetType.success) {
+        return res.status(400).json({ error: "Invalid target type" });
+      }
+      const restored = await storage.setContentHidden(targetType.data, req.params.targetId, false);
+      if (!restored) {
+        return res.status(404).json({ error: "No hidden content to restore" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error restoring content:", error);
+      res.status(500).json({ error: "Failed to restore content" });
+    }
+  });
+
+  app.post("/api/moderation/users/:id/suspend", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (hasRole(target, "moderator")) {
+        return res.status(400).json({ error: "Moderators and admins can't be suspended" });
+      }
+      await storage.setUserSuspended(target.id, true);
+      await storage.resolveReports("user", target.id, res.locals.currentUser.id, "actioned");
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      res.status(500).json({ error: "Failed to suspend user" });
+    }
+  });
+
+  app.delete("/api/moderation/users/:id/suspend", isAuthenticated, requireRole("moderator"), async (req, res) => {
+    try {
+      const user = await storage.setUserSuspended(req.params.id, false);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error unsuspending user:", error);
+      res.status(500).json({ error: "Failed to unsuspend user" });
+    }
+  });
+
+  // Admin diagnostics
+  app.get("/api/admin/cache-stats", isAuthenticated, requireRole("admin"), async (req, res) => {
+    try {
+      res.json(getApiCacheStats());
+    } catch (error) {
+      console.error("Error fetching cache stats:", error);
+      res.status(500).json({ error: "Failed to fetch cache stats" });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", isAuthenticated, requireRole("admin"), async (req, res) => {
+    try {
+      const validation = z.object({ role: z.enum(userRoles) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid role",
+          details: fromZodError(validation.error).toString(),
+        });
+      }
+      const user = await storage.setUserRole(req.params.id, validation.data.role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ id: user.id, role: user.role });
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+
+  app.post("/api/admin/concerts/:id/restore", isAuthenticated, requireRole("admin"), async (req, res) => {
+    try {
+      const concert = await storage.restoreConcert(req.params.id);
+      if (!concert) {
+        return res.status(404).json({ error: "Deleted concert not found" });
+      }
+      res.json(concert);
+    } catch (error) {
+      console.error("Error restoring concert:", error);
+      res.status(500).json({ error: "Failed to restore concert" });
+    }
+  });
+
   // Object serving endpoint for private files
   app.get("/objects/:objectPath(*)", isAuthenticated, async (req: any, res) => {
     const userId = req.user?.claims?.sub;
@@ -813,7 +1826,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get upload URL for object storage
-  app.post("/api/objects/upload", isAuthenticated, async (req: any, res) => {
+  app.post("/api/objects/upload", isAuthenticated, requireActiveAccount, async (req: any, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
@@ -825,7 +1838,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Real image upload endpoint for profile photos
-  app.post("/api/upload/profile-image", isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post("/api/upload/profile-image", isAuthenticated, requireActiveAccount, upload.single('file'), async (req: any, res) => {
     try {
       const userId = getUserId(req);
       
@@ -2,6 +2,8 @@
  * Setlist.fm API service for fetching historical concert data
  */
 
+import { ExternalApiClient } from "./apiCache";
+
 interface SetlistFmArtist {
   mbid: string;
   name: string;
@@ -45,10 +47,16 @@ interface SetlistFmSong {
 }
 
 interface SetlistFmSet {
+  name?: string;
   song: SetlistFmSong[];
   encore?: number;
 }
 
+export interface SetlistSections {
+  songs: string[];
+  encoreSongs: string[];
+}
+
 interface SetlistFmSetlist {
   id: string;
   versionId: string;
@@ -108,10 +116,26 @@ export class SetlistFmService {
   private readonly baseUrl = 'https://api.setlist.fm/rest/1.0';
   private readonly apiKey: string;
 
+  // Setlists for past shows rarely change, so they can be cached for a while
+  private readonly api = new ExternalApiClient({
+    provider: 'setlistfm',
+    ttlMs: (Number(process.env.SETLIST_FM_CACHE_TTL_SECONDS) || 3600) * 1000,
+  });
+
   constructor() {
     this.apiKey = process.env.SETLIST_FM_API_KEY || '';
   }
 
+  private request(url: string) {
+    return this.api.getJson(url, {
+      headers: {
+        'Accept': 'application/json',
+        'x-api-key': this.apiKey,
+        'User-Agent': 'ConcertCritic/1.0'
+      },
+    });
+  }
+
   /**
    * Search for setlists using Setlist.fm API
    */
@@ -141,22 +165,16 @@ export class SetlistFmService {
       const url = `${this.baseUrl}/search/setlists?${params.toString()}`;
       console.log('Fetching from Setlist.fm:', url.replace(this.apiKey, '[API_KEY]'));
 
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'x-api-key': this.apiKey,
-          'User-Agent': 'ConcertCritic/1.0'
-        },
-      });
+      const response = await this.request(url);
       
-      if (!response.ok) {
+      if (response.status >= 300) {
         if (response.status === 404) {
           return []; // No results found
         }
-        throw new Error(`Setlist.fm API error: ${response.status} ${response.statusText}`);
+        throw new Error(`Setlist.fm API error: ${response.status}`);
       }
 
-      const data: SetlistFmSearchResponse = await response.json();
+      const data: SetlistFmSearchResponse = response.data;
       return data.setlist || [];
     } catch (error) {
       console.error('Error fetching from Setlist.fm API:', error);
@@ -183,22 +201,16 @@ export class SetlistFmService {
 
       const url = `${this.baseUrl}/search/artists?${params.toString()}`;
       
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'x-api-key': this.apiKey,
-          'User-Agent': 'ConcertCritic/1.0'
-        },
-      });
+      const response = await this.request(url);
       
-      if (!response.ok) {
+      if (response.status >= 300) {
         if (response.status === 404) {
           return [];
         }
-        throw new Error(`Setlist.fm API error: ${response.status} ${response.statusText}`);
+        throw new Error(`Setlist.fm API error: ${response.status}`);
       }
 
-      const data: SetlistFmArtistSearchResponse = await response.json();
+      const data: SetlistFmArtistSearchResponse = response.data;
       return data.artist || [];
     } catch (error) {
       console.error('Error searching artists on Setlist.fm:', error);
@@ -223,22 +235,16 @@ export class SetlistFmService {
 
       const url = `${this.baseUrl}/search/venues?${params.toString()}`;
       
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'x-api-key': this.apiKey,
-          'User-Agent': 'ConcertCritic/1.0'
-        },
-      });
+      const response = await this.request(url);
       
-      if (!response.ok) {
+      if (response.status >= 300) {
         if (response.status === 404) {
           return [];
         }
-        throw new Error(`Setlist.fm API error: ${response.status} ${response.statusText}`);
+        throw new Error(`Setlist.fm API error: ${response.status}`);
       }
 
-      const data: SetlistFmVenueSearchResponse = await response.json();
+      const data: SetlistFmVenueSearchResponse = response.data;
       return data.venue || [];
     } catch (error) {
       console.error('Error searching venues on Setlist.fm:', error);
@@ -262,22 +268,16 @@ export class SetlistFmService {
 
       const url = `${this.baseUrl}/artist/${artistMbid}/setlists?${params.toString()}`;
       
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'x-api-key': this.apiKey,
-          'User-Agent': 'ConcertCritic/1.0'
-        },
-      });
+      const response = await this.request(url);
       
-      if (!response.ok) {
+      if (response.status >= 300) {
         if (response.status === 404) {
           return [];
         }
-        throw new Error(`Setlist.fm API error: ${response.status} ${response.statusText}`);
+        throw new Error(`Setlist.fm API error: ${response.status}`);
       }
 
-      const data: SetlistFmSearchResponse = await response.json();
+      const data: SetlistFmSearchResponse = response.data;
       return data.setlist || [];
     } catch (error) {
       console.error('Error fetching artist setlists from Setlist.fm:', error);
@@ -285,6 +285,34 @@ export class SetlistFmService {
     }
   }
 
+  /**
+   * Get a single setlist by its Setlist.fm ID
+   */
+  async getSetlist(setlistId: string): Promise<SetlistFmSetlist | null> {
+    try {
+      if (!this.apiKey) {
+        console.warn('Setlist.fm API key not configured - returning empty results');
+        return null;
+      }
+
+      const url = `${this.baseUrl}/setlist/${encodeURIComponent(setlistId)}`;
+
+      const response = await this.request(url);
+
+      if (response.status >= 300) {
+        if (response.status === 404) {
+          return null;
+        }
+        throw new Error(`Setlist.fm API error: ${response.status}`);
+      }
+
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching setlist from Setlist.fm:', error);
+      return null;
+    }
+  }
+
   /**
    * Convert Setlist.fm date format (DD-MM-YYYY) to ISO format (YYYY-MM-DD)
    */
@@ -299,23 +327,22 @@ export class SetlistFmService {
   }
 
   /**
-   * Extract setlist songs as a simple array of song names
+   * Extract setlist songs, keeping the main set apart from encores
    */
-  private extractSetlist(setlist: SetlistFmSetlist): string[] {
-    if (!setlist.sets?.set) return [];
-    
-    const songs: string[] = [];
+  extractSetlist(setlist: SetlistFmSetlist): SetlistSections {
+    const sections: SetlistSections = { songs: [], encoreSongs: [] };
+    if (!setlist.sets?.set) return sections;
+
     setlist.sets.set.forEach(set => {
-      if (set.song) {
-        set.song.forEach(song => {
-          if (song.name) {
-            songs.push(song.name);
-          }
-        });
-      }
+      const target = set.encore ? sections.encoreSongs : sections.songs;
+      set.song?.forEach(song => {
+        if (song.name) {
+          target.push(song.name);
+        }
+      });
     });
-    
-    return songs;
+
+    return sections;
   }
 
   /**
@@ -324,7 +351,8 @@ export class SetlistFmService {
   transformSetlist(setlist: SetlistFmSetlist): any {
     const venue = setlist.venue;
     const city = venue.city;
-    const setlistSongs = this.extractSetlist(setlist);
+    const { songs, encoreSongs } = this.extractSetlist(setlist);
+    const songCount = songs.length + encoreSongs.length;
     
     // Convert date from DD-MM-YYYY to YYYY-MM-DD
     const isoDate = this.convertDateFormat(setlist.eventDate);
@@ -345,8 +373,8 @@ export class SetlistFmService {
     if (setlist.tour?.name) {
       description += ` (${setlist.tour.name})`;
     }
-    if (setlistSongs.length > 0) {
-      description += `. Setlist included ${setlistSongs.length} songs.`;
+    if (songCount > 0) {
+      description += `. Setlist included ${songCount} songs.`;
     }
 
     return {
@@ -366,8 +394,16 @@ export class SetlistFmService {
       setlistFmId: setlist.id,
       setlistFmUrl: setlist.url,
       artistMbid: setlist.artist.mbid,
-      venueId: venue.id,
-      setlist: setlistSongs,
+      setlistFmVenueId: venue.id,
+      latitude: city.coords?.lat ?? null,
+      longitude: city.coords?.long ?? null,
+      setlist: songs,
+      encoreSongs,
+      sets: setlist.sets?.set?.map(set => ({
+        name: set.name || (set.encore ? `Encore ${set.encore}` : undefined),
+        encore: set.encore,
+        songs: set.song?.map(song => song.name).filter(Boolean) || [],
+      })) || [],
       isHistorical: true,
       lastUpdated: setlist.lastUpdated,
       ...(setlist.tour?.name && { tourName: setlist.tour.name }),
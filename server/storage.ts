@@ -7,9 +7,15 @@ import {
   type InsertConcert,
   type Review,
   type InsertReview,
+  type ReviewRevision,
+  type ReviewDraft,
+  type InsertReviewDraft,
   type ReviewWithUser,
+  type FeedPage,
+  type ConcertSearchPage,
   type ConcertWithRating,
   type UserWithStats,
+  type FollowStatus,
   type ConcertWishlist,
   type InsertConcertWishlist,
   type ReviewLike,
@@ -19,19 +25,79 @@ import {
   type ReviewCommentWithUser,
   type UserFollow,
   type InsertUserFollow,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithUser,
+  type UserSettings,
+  type InsertUserSettings,
+  type Artist,
+  type InsertArtist,
+  type ArtistWithStats,
+  type ArtistFollow,
+  type InsertArtistFollow,
+  type Venue,
+  type InsertVenue,
+  type VenueWithStats,
+  type Setlist,
+  type InsertSetlist,
+  type SearchResults,
+  type RecommendedConcert,
+  type ConcertReminderKind,
+  type ConcertStatus,
+  type ArtistEvent,
+  type ArtistEventAlertKind,
+  type UserRole,
+  type Report,
+  type InsertReport,
+  type ReportTargetType,
+  type ModerationQueueItem,
+  type ConcertEdit,
+  type ConcertFieldChanges,
+  type ConcertEditProposal,
+  type ConcertEditProposalWithUser,
+  type ConcertRevision,
+  type ConcertRevisionWithUser,
+  type ConcertAct,
+  type InsertConcertAct,
+  type ConcertActWithRating,
+  type ActRating,
   users,
   concerts,
   reviews,
+  reviewRevisions,
+  reviewDrafts,
   concertWishlists,
   reviewLikes,
   reviewComments,
-  userFollows
+  userFollows,
+  notifications,
+  userSettings,
+  artists,
+  artistFollows,
+  venues,
+  setlists,
+  concertReminders,
+  artistEvents,
+  artistEventAlerts,
+  concertActs,
+  reviewActRatings,
+  reports,
+  concertEditProposals,
+  concertRevisions,
+  concertSearchDocument,
+  reviewSearchDocument
 } from "@shared/schema";
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
-import { eq, desc, count, countDistinct, avg, and, ilike, or, sql, inArray } from "drizzle-orm";
+import { eq, desc, count, countDistinct, avg, and, ilike, or, sql, inArray, isNull, isNotNull, lt, lte, arrayOverlaps, type SQL } from "drizzle-orm";
 import { ticketmasterService, type TicketmasterSearchOptions } from "./ticketmasterService";
 import { setlistFmService, type SetlistFmSearchOptions } from "./setlistFmService";
+import { buildConcertMatchKey, getConcertIdAliases, getMatchKeyEntries, getMatchKeyProbes, normalizeName, parseExternalConcertId, startTimesDiffer } from "./concertMatching";
+import { deriveConcertFields } from "./concertFields";
+import { DEFAULT_NEAR_RADIUS_KM, haversineKm, haversineKmSql, type GeoPoint } from "./geo";
+import { scoreConcert, HIGH_RATING_THRESHOLD, type RecommendationSignals } from "./recommendations";
+import { setCacheStore, PostgresCacheStore } from "./apiCache";
+import { randomBytes } from "crypto";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
@@ -43,6 +109,222 @@ if (!databaseUrl) {
 const client = neon(databaseUrl);
 export const db = drizzle(client);
 
+// External API responses are cached in memory unless told to share them through Postgres
+if (process.env.API_CACHE_STORE === 'postgres') {
+  setCacheStore(new PostgresCacheStore(db));
+}
+
+// Which user_settings toggle gates each notification type
+const notificationPreferenceByType: Record<string, keyof UserSettings> = {
+  follow: 'newFollowerNotif',
+  follow_request: 'newFollowerNotif',
+  follow_accepted: 'newFollowerNotif',
+  like: 'newLikeNotif',
+  comment: 'newCommentNotif',
+  review: 'newReviewNotif',
+  concert_reminder: 'upcomingConcertReminders',
+  artist_new_show: 'artistAlerts',
+  artist_on_sale: 'artistAlerts',
+};
+
+// Soft-deleted concerts stay in the table so their reviews survive, but
+// drop out of lookups, listings and search
+const concertNotDeleted = isNull(concerts.deletedAt);
+
+// Content hidden by moderation only shows up in the moderation queue
+const reviewNotHidden = isNull(reviews.hiddenAt);
+const commentNotHidden = isNull(reviewComments.hiddenAt);
+const userNotHidden = isNull(users.hiddenAt);
+
+// Two lineups list the same act when its name and festival day agree
+const getActKey = (act: { name: string; day?: string | null }) => `${normalizeName(act.name)}|${act.day ?? ''}`;
+
+// Trending ranks activity inside this window, decayed by review age (HN-style gravity)
+const DEFAULT_TRENDING_WINDOW_DAYS = Number(process.env.TRENDING_WINDOW_DAYS) || 7;
+const TRENDING_LIKE_WEIGHT = 1;
+const TRENDING_COMMENT_WEIGHT = 2;
+const TRENDING_GRAVITY = 1.5;
+
+function reviewTrendingScore(windowDays: number) {
+  const since = sql`now() - make_interval(days => ${windowDays})`;
+  return sql<number>`(
+    (SELECT count(*) FROM ${reviewLikes} WHERE ${reviewLikes.reviewId} = ${reviews.id} AND ${reviewLikes.createdAt} > ${since}) * ${sql.raw(String(TRENDING_LIKE_WEIGHT))}
+    + (SELECT count(*) FROM ${reviewComments} WHERE ${reviewComments.reviewId} = ${reviews.id} AND ${reviewComments.createdAt} > ${since}) * ${sql.raw(String(TRENDING_COMMENT_WEIGHT))}
+    + 1
+  ) / power(extract(epoch from now() - ${reviews.createdAt}) / 3600 + 2, ${sql.raw(String(TRENDING_GRAVITY))})`;
+}
+
+// Feed cursors are opaque to clients: base64url of "<createdAt>|<review id>".
+// createdAt is Postgres' own text with microseconds, since a JS Date would
+// drop them and break the tie-break between reviews in the same millisecond.
+const feedCursorTime = sql<string>`to_char(${reviews.createdAt}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`;
+
+function encodeFeedCursor(createdAt: string, id: string): string {
+  return Buffer.from(`${createdAt}|${id}`).toString('base64url');
+}
+
+function decodeFeedCursor(cursor?: string): { createdAt: string; id: string } | undefined {
+  if (!cursor) return undefined;
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  if (!id || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/.test(createdAt ?? '')) return undefined;
+  return { createdAt, id };
+}
+
+// Fields whose value would actually change, as { from, to } pairs
+function diffConcertFields(concert: Concert, updates: Record<string, unknown>): ConcertFieldChanges {
+  const changes: ConcertFieldChanges = {};
+  for (const [field, to] of Object.entries(updates)) {
+    if (to === undefined) continue;
+    const from = concert[field as keyof Concert] ?? null;
+    if (from !== (to ?? null)) changes[field] = { from, to };
+  }
+  return changes;
+}
+
+// Review fields whose earlier values are kept in review_revisions
+const reviewRevisionFields = [
+  'overallRating',
+  'performanceRating',
+  'soundRating',
+  'venueRating',
+  'valueRating',
+  'reviewText',
+] as const;
+
+// A concert on a user's calendar feed and why it's there
+export interface CalendarEntry {
+  concert: Concert;
+  wishlisted: boolean;
+  rating: number | null; // The user's overall rating if they reviewed it
+}
+
+export interface DueConcertReminder {
+  userId: string;
+  email: string | null;
+  emailNotifications: boolean;
+  concert: Concert;
+  kind: ConcertReminderKind;
+  daysUntil: number; // Calendar days in the venue's timezone, 0 on the day of the show
+}
+
+export interface ConcertSyncResult {
+  concert: Concert;
+  // What changed that people with the show saved or reviewed need to hear about
+  change: Exclude<ConcertStatus, 'scheduled'> | null;
+}
+
+export interface ArtistAlertRecipient {
+  userId: string;
+  location: string | null;
+  radiusKm: number | null; // null means anywhere
+}
+
+export interface ConcertSearchOptions {
+  search?: string;
+  genre?: string;
+  city?: string;
+  startDate?: string;
+  endDate?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Restricts results to shows within radiusKm and orders them nearest first
+  near?: GeoPoint;
+  radiusKm?: number;
+  limit?: number;
+  cursor?: string;
+  includeTicketmaster?: boolean;
+  includeHistorical?: boolean;
+}
+
+// Position in each source of a federated concert search; null once a source is used up
+interface ConcertSearchCursor {
+  db: number | null;
+  tm: { page: number; index: number } | null;
+  sfm: { page: number; index: number } | null;
+}
+
+interface ConcertSearchEntry {
+  concert: ConcertWithRating | null;
+  position: number;
+}
+
+interface ConcertSearchSource {
+  name: keyof ConcertSearchCursor;
+  buffer: ConcertSearchEntry[];
+  // Items consumed so far, counted from the start of the source
+  position: number;
+  exhausted: boolean;
+  fetches: number;
+  fetchNext: (source: ConcertSearchSource) => Promise<ConcertWithRating[]>;
+  externalPosition?: (position: number) => { page: number; index: number };
+}
+
+const TICKETMASTER_SEARCH_PAGE_SIZE = 50;
+// Recommendations score this many upcoming stored shows plus a few Ticketmaster searches
+const RECOMMENDATION_CANDIDATE_LIMIT = 200;
+const RECOMMENDATION_TICKETMASTER_SEARCHES = 4;
+const SETLIST_FM_SEARCH_PAGE_SIZE = 20;
+// Bounds the upstream calls one page can trigger when most results are filtered out.
+// Hitting it can return an empty page; its cursor picks up where the sources stopped.
+const MAX_SEARCH_FETCHES_PER_SOURCE = 3;
+
+function encodeSearchCursor(cursor: ConcertSearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeSearchCursor(cursor?: string): ConcertSearchCursor | undefined {
+  if (!cursor) return undefined;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return 'db' in parsed && 'tm' in parsed && 'sfm' in parsed ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Turns free text into a prefix tsquery ("foo fi" -> "foo:* & fi:*") so partly
+// typed words still match. Only letters and digits survive, which keeps
+// to_tsquery from choking on user input.
+function buildPrefixTsQuery(text: string): string {
+  const terms = text.toLowerCase().match(new RegExp('[\\p{L}\\p{N}]+', 'gu')) ?? [];
+  return terms.slice(0, 8).map(term => `${term}:*`).join(' & ');
+}
+
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2';
+
+function searchRelevance(concert: { artist: string }, search?: string): number {
+  if (!search) return 0;
+  const query = search.toLowerCase();
+  const artist = concert.artist.toLowerCase();
+  if (artist === query) return 3;
+  if (artist.startsWith(query)) return 2;
+  return artist.includes(query) ? 1 : 0;
+}
+
+// Upcoming shows soonest first, then past shows most recent first; relevance breaks ties.
+// Searches near a point are ordered nearest first instead.
+function compareConcertsForSearch(
+  a: ConcertWithRating,
+  b: ConcertWithRating,
+  today: string,
+  options: ConcertSearchOptions,
+): number {
+  if (options.near) {
+    return (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) || a.id.localeCompare(b.id);
+  }
+
+  const aDate = a.date.slice(0, 10);
+  const bDate = b.date.slice(0, 10);
+  const aPast = aDate < today;
+  const bPast = bDate < today;
+  if (aPast !== bPast) return aPast ? 1 : -1;
+
+  const byDate = aPast ? bDate.localeCompare(aDate) : aDate.localeCompare(bDate);
+  if (byDate !== 0) return byDate;
+
+  return searchRelevance(b, options.search) - searchRelevance(a, options.search) || a.id.localeCompare(b.id);
+}
+
 export interface IStorage {
   // Session store (required for authentication)
   sessionStore: session.Store;
@@ -57,6 +339,7 @@ export interface IStorage {
   getUserWithStats(id: string, currentUserId?: string): Promise<UserWithStats | undefined>;
   searchUsers(query: string): Promise<PublicUser[]>;
   isUsernameAvailable(username: string): Promise<boolean>;
+  setUserRole(id: string, role: UserRole): Promise<User | undefined>;
 
   // Concerts
   getConcert(id: string): Promise<Concert | undefined>;
@@ -64,12 +347,38 @@ export interface IStorage {
     search?: string;
     genre?: string;
     city?: string;
+    artistId?: string;
+    venueId?: string;
+    startDate?: string;
+    endDate?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    near?: GeoPoint;
+    radiusKm?: number;
+    orderBy?: 'created' | 'date' | 'distance';
     limit?: number;
     offset?: number;
   }): Promise<ConcertWithRating[]>;
-  createConcert(concert: InsertConcert): Promise<Concert>;
+  createConcert(concert: InsertConcert, id?: string, lineup?: InsertConcertAct[]): Promise<Concert>;
   updateConcert(id: string, updates: Partial<InsertConcert>): Promise<Concert | undefined>;
   deleteConcert(id: string): Promise<boolean>;
+  softDeleteConcert(id: string, deletedBy: string): Promise<boolean>;
+  restoreConcert(id: string): Promise<Concert | undefined>;
+  isConcertDeleted(id: string): Promise<boolean>;
+  getConcertReviewCount(id: string): Promise<number>;
+  mergeConcerts(targetId: string, duplicateId: string): Promise<Concert | undefined>;
+  deduplicateConcerts(): Promise<number>;
+  backfillConcertFields(): Promise<number>;
+
+  // Concert edits & history
+  editConcert(id: string, updates: Partial<InsertConcert>, editorId: string | null, source?: { proposalId?: string; revertOf?: string }): Promise<{ concert: Concert; revision: ConcertRevision | null } | undefined>;
+  createConcertEditProposal(concertId: string, proposedBy: string, edit: ConcertEdit, note?: string | null): Promise<ConcertEditProposal | null>;
+  getConcertEditProposals(concertId: string, options?: { pendingOnly?: boolean }): Promise<ConcertEditProposalWithUser[]>;
+  getConcertEditProposal(id: string): Promise<ConcertEditProposal | undefined>;
+  reviewConcertEditProposal(id: string, reviewerId: string, accept: boolean): Promise<{ proposal: ConcertEditProposal; concert?: Concert } | undefined>;
+  getConcertRevisions(concertId: string): Promise<ConcertRevisionWithUser[]>;
+  getConcertRevision(id: string): Promise<ConcertRevision | undefined>;
+  revertConcertRevision(id: string, editorId: string): Promise<{ concert: Concert; revision: ConcertRevision | null } | undefined>;
 
   // Ticketmaster Integration
   searchTicketmasterEvents(options?: TicketmasterSearchOptions): Promise<any[]>;
@@ -85,17 +394,9 @@ export interface IStorage {
 
   // Setlist.fm Integration  
   searchSetlistFmEvents(options?: SetlistFmSearchOptions): Promise<any[]>;
-  getConcertsWithHistorical(options?: {
-    search?: string;
-    genre?: string;
-    city?: string;
-    limit?: number;
-    offset?: number;
-    includeTicketmaster?: boolean;
-    includeHistorical?: boolean;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<ConcertWithRating[]>;
+  getSetlistFmEvent(setlistId: string): Promise<any | null>;
+  searchConcerts(options?: ConcertSearchOptions): Promise<ConcertSearchPage>;
+  getTrendingConcerts(options?: { limit?: number; windowDays?: number }): Promise<ConcertWithRating[]>;
 
   // Reviews
   getReview(id: string): Promise<Review | undefined>;
@@ -104,11 +405,23 @@ export interface IStorage {
   getAllReviews(options?: {
     limit?: number;
     offset?: number;
-    sort?: 'recent' | 'rating' | 'oldest';
+    sort?: 'recent' | 'rating' | 'oldest' | 'trending';
+    windowDays?: number;
+    currentUserId?: string;
   }): Promise<ReviewWithUser[]>;
+  getFeed(userId: string, options?: { limit?: number; cursor?: string }): Promise<FeedPage>;
   createReview(review: InsertReview): Promise<Review>;
   updateReview(id: string, updates: Partial<InsertReview>): Promise<Review | undefined>;
   deleteReview(id: string): Promise<boolean>;
+  getReviewRevisions(reviewId: string): Promise<ReviewRevision[]>;
+
+  // Review drafts
+  getReviewDrafts(userId: string): Promise<ReviewDraft[]>;
+  getReviewDraft(userId: string, id: string): Promise<ReviewDraft | undefined>;
+  saveReviewDraft(userId: string, draft: InsertReviewDraft): Promise<{ draft: ReviewDraft; droppedPhotos: string[] }>;
+  deleteReviewDraft(userId: string, id: string): Promise<ReviewDraft | undefined>;
+  deleteReviewDraftsForConcert(userId: string, concertIds: string[]): Promise<void>;
+  getUnreferencedPhotos(paths: string[]): Promise<string[]>;
 
   // Wishlist
   addToWishlist(wishlist: InsertConcertWishlist): Promise<ConcertWishlist>;
@@ -132,8 +445,89 @@ export interface IStorage {
   followUser(follow: InsertUserFollow): Promise<UserFollow>;
   unfollowUser(followerId: string, followingId: string): Promise<boolean>;
   isFollowing(followerId: string, followingId: string): Promise<boolean>;
+  getFollowStatus(followerId: string, followingId: string): Promise<FollowStatus>;
+  canViewUserContent(viewerId: string | undefined, userId: string): Promise<boolean>;
+  getFollowRequests(userId: string): Promise<PublicUser[]>;
+  respondToFollowRequest(userId: string, followerId: string, approve: boolean): Promise<boolean>;
   getFollowers(userId: string): Promise<PublicUser[]>;
   getFollowing(userId: string): Promise<PublicUser[]>;
+
+  // Notifications
+  getNotifications(userId: string, options?: {
+    limit?: number;
+    offset?: number;
+    unreadOnly?: boolean;
+  }): Promise<NotificationWithUser[]>;
+  getUnreadNotificationsCount(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<boolean>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // User Settings
+  getUserSettings(userId: string): Promise<UserSettings>;
+  updateUserSettings(userId: string, updates: Partial<Omit<InsertUserSettings, 'userId'>>): Promise<UserSettings>;
+
+  // Calendar feed
+  getCalendarToken(userId: string, options?: { reset?: boolean }): Promise<string>;
+  getUserIdByCalendarToken(token: string): Promise<string | undefined>;
+  getCalendarConcerts(userId: string): Promise<CalendarEntry[]>;
+
+  // Concert reminders
+  getDueConcertReminders(now?: Date): Promise<DueConcertReminder[]>;
+  claimConcertReminder(userId: string, concertId: string, kind: ConcertReminderKind): Promise<string | undefined>;
+  releaseConcertReminder(id: string): Promise<void>;
+  markConcertReminderEmailed(id: string): Promise<void>;
+
+  // Ticketmaster status sync
+  getConcertsDueForSync(options: { limit: number; checkedBefore: Date }): Promise<Concert[]>;
+  syncTicketmasterConcert(concert: Concert): Promise<ConcertSyncResult>;
+
+  // Followed-artist alerts
+  getFollowedArtistsDueForScan(options: { limit: number; scannedBefore: Date }): Promise<Artist[]>;
+  recordArtistEvents(artist: Artist, events: any[]): Promise<ArtistEvent[]>;
+  getArtistEventsGoingOnSale(from: Date, until: Date): Promise<ArtistEvent[]>;
+  getArtistAlertRecipients(artistId: string): Promise<ArtistAlertRecipient[]>;
+  claimArtistEventAlert(userId: string, artistEventId: string, kind: ArtistEventAlertKind): Promise<boolean>;
+
+  // Reports & moderation
+  getReportTargetAuthorId(targetType: ReportTargetType, targetId: string): Promise<string | undefined>;
+  createReport(reporterId: string, report: InsertReport, hideThreshold: number): Promise<{ report: Report; hidden: boolean } | undefined>;
+  getModerationQueue(options?: { status?: 'open' | 'resolved'; limit?: number }): Promise<ModerationQueueItem[]>;
+  resolveReports(targetType: ReportTargetType, targetId: string, moderatorId: string, status: 'dismissed' | 'actioned'): Promise<number>;
+  setContentHidden(targetType: ReportTargetType, targetId: string, hidden: boolean): Promise<boolean>;
+  setUserSuspended(userId: string, suspended: boolean): Promise<User | undefined>;
+
+  // Artists
+  getArtist(id: string): Promise<Artist | undefined>;
+  getArtistWithStats(id: string, currentUserId?: string): Promise<ArtistWithStats | undefined>;
+  findOrCreateArtist(artist: InsertArtist): Promise<Artist>;
+  getTopReviewsForArtist(artistId: string, currentUserId?: string, limit?: number): Promise<ReviewWithUser[]>;
+  followArtist(follow: InsertArtistFollow): Promise<ArtistFollow>;
+  unfollowArtist(userId: string, artistId: string): Promise<boolean>;
+  isFollowingArtist(userId: string, artistId: string): Promise<boolean>;
+
+  // Venues
+  getVenue(id: string): Promise<Venue | undefined>;
+  getVenueWithStats(id: string): Promise<VenueWithStats | undefined>;
+  searchVenues(options?: { query?: string; city?: string; limit?: number }): Promise<Venue[]>;
+  findOrCreateVenue(venue: InsertVenue): Promise<Venue>;
+  getLocationCoordinates(location: string): Promise<GeoPoint | null>;
+
+  // Lineups
+  getConcertLineup(concertId: string): Promise<ConcertActWithRating[]>;
+  setConcertLineup(concertId: string, acts: InsertConcertAct[]): Promise<ConcertAct[]>;
+  getReviewActRatings(reviewId: string): Promise<ActRating[]>;
+  setReviewActRatings(reviewId: string, concertId: string, ratings: ActRating[]): Promise<void>;
+
+  // Setlists
+  getSetlistForConcert(concertId: string): Promise<Setlist | undefined>;
+  saveUserSetlist(concertId: string, setlist: Pick<InsertSetlist, 'songs' | 'encoreSongs' | 'notes'>, submittedBy: string): Promise<Setlist>;
+
+  // Search
+  search(query: string, options?: { currentUserId?: string; limit?: number }): Promise<SearchResults>;
+
+  // Recommendations
+  getConcertRecommendations(userId: string, options?: { limit?: number }): Promise<RecommendedConcert[]>;
 }
 
 export class PostgresStorage implements IStorage {
@@ -222,6 +616,14 @@ export class PostgresStorage implements IStorage {
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(users.id, id))
       .returning();
+
+    // Going public means there's nothing left to approve
+    if (result[0] && updates.isPrivate === false) {
+      await db
+        .update(userFollows)
+        .set({ status: 'accepted' })
+        .where(and(eq(userFollows.followingId, id), eq(userFollows.status, 'pending')));
+    }
     return result[0];
   }
 
@@ -277,40 +679,41 @@ export class PostgresStorage implements IStorage {
 
   async getUserWithStats(id: string, currentUserId?: string): Promise<UserWithStats | undefined> {
     const user = await this.getUser(id);
-    if (!user) return undefined;
+    if (!user || (user.hiddenAt && currentUserId !== id)) return undefined;
 
     // Get user stats
     const [concertsCount, reviewsCount, followersCount, followingCount, avgRating] = await Promise.all([
       // Count unique concerts from reviews
       db.select({ count: countDistinct(reviews.concertId) })
         .from(reviews)
-        .where(eq(reviews.userId, id)),
+        .where(and(eq(reviews.userId, id), reviewNotHidden)),
       
       // Count total reviews
       db.select({ count: count() })
         .from(reviews)
-        .where(eq(reviews.userId, id)),
+        .where(and(eq(reviews.userId, id), reviewNotHidden)),
       
       // Count followers
       db.select({ count: count() })
         .from(userFollows)
-        .where(eq(userFollows.followingId, id)),
+        .where(and(eq(userFollows.followingId, id), eq(userFollows.status, 'accepted'))),
       
       // Count following
       db.select({ count: count() })
         .from(userFollows)
-        .where(eq(userFollows.followerId, id)),
+        .where(and(eq(userFollows.followerId, id), eq(userFollows.status, 'accepted'))),
       
       // Average rating
       db.select({ avg: avg(reviews.overallRating) })
         .from(reviews)
-        .where(eq(reviews.userId, id))
+        .where(and(eq(reviews.userId, id), reviewNotHidden))
     ]);
 
-    let isFollowing = false;
+    let followStatus: FollowStatus = 'none';
     if (currentUserId && currentUserId !== id) {
-      isFollowing = await this.isFollowing(currentUserId, id);
+      followStatus = await this.getFollowStatus(currentUserId, id);
     }
+    const canViewContent = !user.isPrivate || currentUserId === id || followStatus === 'accepted';
 
     // SECURITY FIX: Return only public fields, exclude email, firstName, lastName
     const publicUser: PublicUser = {
@@ -337,7 +740,9 @@ export class PostgresStorage implements IStorage {
         following: followingCount[0]?.count || 0,
         averageRating: avgRating[0]?.avg ? Number(avgRating[0].avg) : undefined,
       },
-      isFollowing,
+      isFollowing: followStatus === 'accepted',
+      followStatus,
+      canViewContent,
     };
   }
 
@@ -359,9 +764,12 @@ export class PostgresStorage implements IStorage {
       })
       .from(users)
       .where(
-        or(
-          ilike(users.firstName, `%${query}%`),
-          ilike(users.lastName, `%${query}%`)
+        and(
+          userNotHidden,
+          or(
+            ilike(users.firstName, `%${query}%`),
+            ilike(users.lastName, `%${query}%`)
+          )
         )
       )
       .limit(20);
@@ -377,20 +785,72 @@ export class PostgresStorage implements IStorage {
     return result.length === 0;
   }
 
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
   // Concerts
+  // External ids resolve through their alias columns, so tm_/setlistfm_ links
+  // keep working after the show was merged into another row
   async getConcert(id: string): Promise<Concert | undefined> {
-    const result = await db.select().from(concerts).where(eq(concerts.id, id)).limit(1);
-    return result[0];
+    const result = await db.select().from(concerts).where(and(eq(concerts.id, id), concertNotDeleted)).limit(1);
+    if (result[0]) return result[0];
+
+    const { ticketmasterId, setlistFmId } = parseExternalConcertId(id);
+    if (!ticketmasterId && !setlistFmId) return undefined;
+
+    const aliased = await db
+      .select()
+      .from(concerts)
+      .where(and(
+        ticketmasterId ? eq(concerts.ticketmasterId, ticketmasterId) : eq(concerts.setlistFmId, setlistFmId!),
+        concertNotDeleted,
+      ))
+      .limit(1);
+    return aliased[0];
   }
 
   async getConcerts(options?: {
     search?: string;
     genre?: string;
     city?: string;
+    artistId?: string;
+    venueId?: string;
+    startDate?: string;
+    endDate?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    near?: GeoPoint;
+    radiusKm?: number;
+    orderBy?: 'created' | 'date' | 'distance';
     limit?: number;
     offset?: number;
   }): Promise<ConcertWithRating[]> {
-    const { search, genre, city, limit = 20, offset = 0 } = options || {};
+    const {
+      search,
+      genre,
+      city,
+      artistId,
+      venueId,
+      startDate,
+      endDate,
+      minPrice,
+      maxPrice,
+      near,
+      radiusKm = DEFAULT_NEAR_RADIUS_KM,
+      orderBy = 'created',
+      limit = 20,
+      offset = 0,
+    } = options || {};
+
+    const distanceKm = near
+      ? haversineKmSql(near, concerts.latitude, concerts.longitude)
+      : sql<number | null>`null`;
     
     let query = db
       .select({
@@ -401,15 +861,41 @@ export class PostgresStorage implements IStorage {
         avgVenue: avg(reviews.venueRating),
         avgValue: avg(reviews.valueRating),
         reviewCount: count(reviews.id),
+        distanceKm,
       })
       .from(concerts)
-      .leftJoin(reviews, eq(concerts.id, reviews.concertId))
+      .leftJoin(reviews, and(eq(concerts.id, reviews.concertId), reviewNotHidden))
       .groupBy(concerts.id)
       .limit(limit)
-      .offset(offset)
-      .orderBy(desc(concerts.createdAt));
+      .offset(offset);
 
-    const conditions = [];
+    if (orderBy === 'distance' && near) {
+      query = query.orderBy(distanceKm, concerts.id) as any;
+    } else if (orderBy === 'date') {
+      // Mirrors compareConcertsForSearch so database rows merge cleanly with API results
+      const today = new Date().toISOString().slice(0, 10);
+      const day = sql`left(${concerts.date}, 10)`;
+      const isPast = sql`${day} < ${today}`;
+      const relevance = search
+        ? sql`CASE
+            WHEN lower(${concerts.artist}) = ${search.toLowerCase()} THEN 3
+            WHEN lower(${concerts.artist}) LIKE ${search.toLowerCase() + '%'} THEN 2
+            WHEN lower(${concerts.artist}) LIKE ${'%' + search.toLowerCase() + '%'} THEN 1
+            ELSE 0
+          END`
+        : sql`0`;
+      query = query.orderBy(
+        isPast,
+        sql`CASE WHEN NOT (${isPast}) THEN ${day} END ASC`,
+        sql`CASE WHEN ${isPast} THEN ${day} END DESC`,
+        desc(relevance),
+        concerts.id
+      ) as any;
+    } else {
+      query = query.orderBy(desc(concerts.createdAt)) as any;
+    }
+
+    const conditions: (SQL | undefined)[] = [concertNotDeleted];
     if (search) {
       conditions.push(
         or(
@@ -425,13 +911,76 @@ export class PostgresStorage implements IStorage {
     if (city) {
       conditions.push(ilike(concerts.city, `%${city}%`));
     }
-
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+    if (artistId) {
+      conditions.push(eq(concerts.artistId, artistId));
+    }
+    if (venueId) {
+      conditions.push(eq(concerts.venueId, venueId));
+    }
+    // The window is in calendar days where each show takes place, not UTC days
+    const localDay = sql`(${concerts.startsAt} AT TIME ZONE coalesce(${concerts.timezone}, 'UTC'))::date`;
+    if (startDate) {
+      conditions.push(sql`${localDay} >= ${startDate}::date`);
+    }
+    if (endDate) {
+      conditions.push(sql`${localDay} <= ${endDate}::date`);
+    }
+    // A price filter only matches shows with a known price whose range overlaps it
+    if (minPrice !== undefined) {
+      conditions.push(sql`coalesce(${concerts.priceMax}, ${concerts.priceMin}) >= ${minPrice}`);
+    }
+    if (maxPrice !== undefined) {
+      conditions.push(lte(concerts.priceMin, maxPrice));
+    }
+    if (near) {
+      conditions.push(sql`${concerts.latitude} IS NOT NULL AND ${concerts.longitude} IS NOT NULL`);
+      conditions.push(sql`${distanceKm} <= ${radiusKm}`);
     }
 
+    query = query.where(and(...conditions)) as any;
+
     const result = await query;
     
+    return result.map(row => ({
+      ...row.concert,
+      averageRating: row.avgRating ? Number(row.avgRating) : undefined,
+      performanceRating: row.avgPerformance ? Number(row.avgPerformance) : undefined,
+      soundRating: row.avgSound ? Number(row.avgSound) : undefined,
+      venueRating: row.avgVenue ? Number(row.avgVenue) : undefined,
+      valueRating: row.avgValue ? Number(row.avgValue) : undefined,
+      reviewCount: Number(row.reviewCount),
+      ...(row.distanceKm != null && { distanceKm: Number(row.distanceKm) }),
+    }));
+  }
+
+  async getTrendingConcerts(options?: { limit?: number; windowDays?: number }): Promise<ConcertWithRating[]> {
+    const { limit = 20, windowDays = DEFAULT_TRENDING_WINDOW_DAYS } = options || {};
+    const since = sql`now() - make_interval(days => ${windowDays})`;
+
+    // A new review says more about a show than someone saving it for later
+    const activityScore = sql<number>`(
+      (SELECT count(*) FROM ${reviews} r WHERE r.concert_id = ${concerts.id} AND r.created_at > ${since}) * 3
+      + (SELECT count(*) FROM ${concertWishlists} WHERE ${concertWishlists.concertId} = ${concerts.id} AND ${concertWishlists.createdAt} > ${since})
+    )`;
+
+    const result = await db
+      .select({
+        concert: concerts,
+        avgRating: avg(reviews.overallRating),
+        avgPerformance: avg(reviews.performanceRating),
+        avgSound: avg(reviews.soundRating),
+        avgVenue: avg(reviews.venueRating),
+        avgValue: avg(reviews.valueRating),
+        reviewCount: count(reviews.id),
+        score: activityScore,
+      })
+      .from(concerts)
+      .leftJoin(reviews, and(eq(concerts.id, reviews.concertId), reviewNotHidden))
+      .where(and(concertNotDeleted, sql`${activityScore} > 0`))
+      .groupBy(concerts.id)
+      .orderBy(desc(activityScore), desc(concerts.date))
+      .limit(limit);
+
     return result.map(row => ({
       ...row.concert,
       averageRating: row.avgRating ? Number(row.avgRating) : undefined,
@@ -443,102 +992,584 @@ export class PostgresStorage implements IStorage {
     }));
   }
 
-  async createConcert(concert: InsertConcert): Promise<Concert> {
-    const result = await db.insert(concerts).values(concert).returning();
+  // External concerts (Ticketmaster/Setlist.fm) keep their prefixed id when imported.
+  // A show that's already stored under another source gains the new alias instead of a duplicate row.
+  async createConcert(concert: InsertConcert, id?: string, lineup?: InsertConcertAct[]): Promise<Concert> {
+    const matchKey = buildConcertMatchKey(concert);
+    const externalIds = id ? parseExternalConcertId(id) : {};
+
+    const candidates = await db
+      .select()
+      .from(concerts)
+      .where(and(eq(concerts.matchKey, matchKey), concertNotDeleted))
+      .orderBy(concerts.createdAt);
+    // Early and late shows on the same day share a key but not a start time
+    const existing = candidates.find(candidate => !startTimesDiffer(candidate.time, concert.time));
+    if (existing) {
+      const newAliases = {
+        ...(externalIds.ticketmasterId && !existing.ticketmasterId && { ticketmasterId: externalIds.ticketmasterId }),
+        ...(externalIds.setlistFmId && !existing.setlistFmId && { setlistFmId: externalIds.setlistFmId }),
+      };
+      // Another source may know the lineup the stored copy is missing
+      if (lineup && lineup.length > 1) {
+        const [storedAct] = await db.select({ id: concertActs.id }).from(concertActs).where(eq(concertActs.concertId, existing.id)).limit(1);
+        if (!storedAct) await this.setConcertLineup(existing.id, lineup);
+      }
+      if (Object.keys(newAliases).length === 0) return existing;
+
+      const [updated] = await db
+        .update(concerts)
+        .set({ ...newAliases, updatedAt: new Date() })
+        .where(eq(concerts.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [artist, venue] = await Promise.all([
+      this.findOrCreateArtist({
+        name: concert.artist,
+        genres: concert.genre && concert.genre !== 'Music' ? [concert.genre] : [],
+        imageUrl: concert.imageUrl,
+      }),
+      this.resolveConcertVenue(concert.venue, concert.city, concert),
+    ]);
+
+    const result = await db
+      .insert(concerts)
+      .values({
+        ...concert,
+        ...(id && { id }),
+        ...externalIds,
+        ...deriveConcertFields(concert),
+        fieldsParsedAt: new Date(),
+        // Shows without their own coordinates take the venue's
+        latitude: concert.latitude ?? venue?.latitude,
+        longitude: concert.longitude ?? venue?.longitude,
+        matchKey,
+        artistId: artist.id,
+        venueId: venue?.id,
+      })
+      .returning();
+    await this.refreshArtistCounts(artist.id);
+    if (lineup && lineup.length > 0) {
+      await this.setConcertLineup(result[0].id, lineup);
+    }
     return result[0];
   }
 
   async updateConcert(id: string, updates: Partial<InsertConcert>): Promise<Concert | undefined> {
+    const existing = await this.getConcert(id);
+    if (!existing) return undefined;
+
+    let artistId = existing.artistId;
+    if (updates.artist && updates.artist !== existing.artist) {
+      const artist = await this.findOrCreateArtist({ name: updates.artist });
+      artistId = artist.id;
+    }
+
+    let venueId = existing.venueId;
+    if ((updates.venue && updates.venue !== existing.venue) || (updates.city && updates.city !== existing.city)) {
+      const venue = await this.resolveConcertVenue(updates.venue || existing.venue, updates.city || existing.city);
+      venueId = venue?.id ?? null;
+    }
+
+    const matchKey = buildConcertMatchKey({
+      artist: updates.artist ?? existing.artist,
+      venue: updates.venue ?? existing.venue,
+      city: updates.city ?? existing.city,
+      date: updates.date ?? existing.date,
+    });
+    const structuredFields = deriveConcertFields({
+      date: updates.date ?? existing.date,
+      time: updates.time ?? existing.time,
+      price: updates.price ?? existing.price,
+      timezone: updates.timezone !== undefined ? updates.timezone : existing.timezone,
+    });
+
     const result = await db
       .update(concerts)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, ...structuredFields, fieldsParsedAt: new Date(), artistId, venueId, matchKey, updatedAt: new Date() })
       .where(eq(concerts.id, id))
       .returning();
+
+    if (artistId !== existing.artistId) {
+      await Promise.all([
+        artistId && this.refreshArtistCounts(artistId),
+        existing.artistId && this.refreshArtistCounts(existing.artistId),
+      ]);
+    }
+    if (venueId !== existing.venueId) {
+      await Promise.all([
+        venueId && this.refreshVenueRating(venueId),
+        existing.venueId && this.refreshVenueRating(existing.venueId),
+      ]);
+    }
     return result[0];
   }
 
   async deleteConcert(id: string): Promise<boolean> {
     const result = await db.delete(concerts).where(eq(concerts.id, id)).returning();
+    if (result[0]?.artistId) {
+      await this.refreshArtistCounts(result[0].artistId);
+    }
+    if (result[0]?.venueId) {
+      await this.refreshVenueRating(result[0].venueId);
+    }
     return result.length > 0;
   }
 
-  // Reviews
-  async getReview(id: string): Promise<Review | undefined> {
-    const result = await db.select().from(reviews).where(eq(reviews.id, id)).limit(1);
-    return result[0];
+  // Hides the concert but keeps it, and everything attached to it, in place
+  async softDeleteConcert(id: string, deletedBy: string): Promise<boolean> {
+    const result = await db
+      .update(concerts)
+      .set({ deletedAt: new Date(), deletedBy, updatedAt: new Date() })
+      .where(and(eq(concerts.id, id), concertNotDeleted))
+      .returning();
+    if (result[0]?.artistId) {
+      await this.refreshArtistCounts(result[0].artistId);
+    }
+    if (result[0]?.venueId) {
+      await this.refreshVenueRating(result[0].venueId);
+    }
+    return result.length > 0;
   }
 
-  async getReviewsForConcert(concertId: string, currentUserId?: string): Promise<ReviewWithUser[]> {
+  async restoreConcert(id: string): Promise<Concert | undefined> {
     const result = await db
-      .select({
-        review: reviews,
-        user: {
-          id: users.id,
-          username: users.username,
-          profileImageUrl: users.profileImageUrl,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          bio: users.bio,
-          location: users.location,
-          isVerified: users.isVerified,
-          isPrivate: users.isPrivate,
-          favoriteGenres: users.favoriteGenres,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
-        concert: concerts,
-      })
-      .from(reviews)
-      .innerJoin(users, eq(reviews.userId, users.id))
-      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
-      .where(eq(reviews.concertId, concertId))
-      .orderBy(desc(reviews.createdAt));
+      .update(concerts)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(and(eq(concerts.id, id), isNotNull(concerts.deletedAt)))
+      .returning();
+    if (result[0]?.artistId) {
+      await this.refreshArtistCounts(result[0].artistId);
+    }
+    if (result[0]?.venueId) {
+      await this.refreshVenueRating(result[0].venueId);
+    }
+    return result[0];
+  }
 
-    if (result.length === 0) return [];
+  // Whether the id, or the external id it aliases, belongs to a soft-deleted concert
+  async isConcertDeleted(id: string): Promise<boolean> {
+    const { ticketmasterId, setlistFmId } = parseExternalConcertId(id);
+    const [deleted] = await db
+      .select({ id: concerts.id })
+      .from(concerts)
+      .where(and(
+        isNotNull(concerts.deletedAt),
+        or(
+          eq(concerts.id, id),
+          ticketmasterId ? eq(concerts.ticketmasterId, ticketmasterId) : undefined,
+          setlistFmId ? eq(concerts.setlistFmId, setlistFmId) : undefined,
+        ),
+      ))
+      .limit(1);
+    return !!deleted;
+  }
 
-    const reviewIds = result.map(row => row.review.id);
+  async getConcertReviewCount(id: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(reviews).where(eq(reviews.concertId, id));
+    return Number(result?.count ?? 0);
+  }
 
-    // Batch check if current user liked any of these reviews (fix N+1 query)
-    let likedReviewIds = new Set<string>();
-    if (currentUserId) {
-      const likes = await db
-        .select({ reviewId: reviewLikes.reviewId })
-        .from(reviewLikes)
-        .where(
-          and(
-            eq(reviewLikes.userId, currentUserId),
-            inArray(reviewLikes.reviewId, reviewIds)
-          )
-        );
-      likedReviewIds = new Set(likes.map(like => like.reviewId));
-    }
+  // Moves everything attached to the duplicate onto the target, then removes the duplicate
+  async mergeConcerts(targetId: string, duplicateId: string): Promise<Concert | undefined> {
+    if (targetId === duplicateId) return this.getConcert(targetId);
 
-    // Batch get likes counts for all reviews
-    const likesCounts = await db
-      .select({
-        reviewId: reviewLikes.reviewId,
-        count: count(),
-      })
-      .from(reviewLikes)
-      .where(inArray(reviewLikes.reviewId, reviewIds))
-      .groupBy(reviewLikes.reviewId);
-    
-    const likesCountMap = new Map(likesCounts.map(item => [item.reviewId, Number(item.count)]));
+    const [target, duplicate] = await Promise.all([this.getConcert(targetId), this.getConcert(duplicateId)]);
+    if (!target || !duplicate) return undefined;
 
-    // Batch get comments counts for all reviews
-    const commentsCounts = await db
-      .select({
-        reviewId: reviewComments.reviewId,
-        count: count(),
-      })
-      .from(reviewComments)
-      .where(inArray(reviewComments.reviewId, reviewIds))
-      .groupBy(reviewComments.reviewId);
-    
-    const commentsCountMap = new Map(commentsCounts.map(item => [item.reviewId, Number(item.count)]));
+    // The duplicate's acts would take their ratings with them. Acts both lineups
+    // list hand their ratings to the target's act; the rest join the target's lineup.
+    const [targetActs, duplicateActs] = await Promise.all([
+      db.select().from(concertActs).where(eq(concertActs.concertId, target.id)),
+      db.select().from(concertActs).where(eq(concertActs.concertId, duplicate.id)),
+    ]);
+    const targetActsByKey = new Map(targetActs.map(act => [getActKey(act), act]));
+    const actStatements = duplicateActs.map(act => {
+      const match = targetActsByKey.get(getActKey(act));
+      if (match) {
+        return db.update(reviewActRatings).set({ actId: match.id }).where(eq(reviewActRatings.actId, act.id));
+      }
+      return db
+        .update(concertActs)
+        .set({
+          concertId: target.id,
+          ...(targetActs.length > 0 && { role: 'support', position: targetActs.length + act.position }),
+        })
+        .where(eq(concertActs.id, act.id));
+    });
 
-    return result.map(row => ({
-      ...row.review,
+    // neon-http has no interactive transactions, but a batch runs as one
+    // transaction, so the statements are ordered to hold without reads in between
+    await db.batch([
+      // A user who reviewed both copies keeps the review on the target
+      db.delete(reviews).where(
+        and(
+          eq(reviews.concertId, duplicate.id),
+          inArray(
+            reviews.userId,
+            db.select({ userId: reviews.userId }).from(reviews).where(eq(reviews.concertId, target.id))
+          )
+        )
+      ),
+      db.update(reviews).set({ concertId: target.id }).where(eq(reviews.concertId, duplicate.id)),
+      ...actStatements,
+
+      // A user who saved both copies keeps a single wishlist entry
+      db.delete(concertWishlists).where(
+        and(
+          eq(concertWishlists.concertId, duplicate.id),
+          inArray(
+            concertWishlists.userId,
+            db.select({ userId: concertWishlists.userId }).from(concertWishlists).where(eq(concertWishlists.concertId, target.id))
+          )
+        )
+      ),
+      db.update(concertWishlists).set({ concertId: target.id }).where(eq(concertWishlists.concertId, duplicate.id)),
+
+      // The target's setlist wins; otherwise the duplicate's moves over
+      db.delete(setlists).where(
+        and(
+          eq(setlists.concertId, duplicate.id),
+          sql`exists (select 1 from setlists where concert_id = ${target.id})`
+        )
+      ),
+      db.update(setlists).set({ concertId: target.id }).where(eq(setlists.concertId, duplicate.id)),
+
+      // Reminders already sent for either copy stay sent
+      db.delete(concertReminders).where(
+        and(
+          eq(concertReminders.concertId, duplicate.id),
+          sql`(${concertReminders.userId}, ${concertReminders.kind}) in (select user_id, kind from concert_reminders where concert_id = ${target.id})`
+        )
+      ),
+      db.update(concertReminders).set({ concertId: target.id }).where(eq(concertReminders.concertId, duplicate.id)),
+
+      db.update(notifications).set({ relatedConcertId: target.id }).where(eq(notifications.relatedConcertId, duplicate.id)),
+      db.update(concertEditProposals).set({ concertId: target.id }).where(eq(concertEditProposals.concertId, duplicate.id)),
+      db.update(concertRevisions).set({ concertId: target.id }).where(eq(concertRevisions.concertId, duplicate.id)),
+
+      // Free the unique alias columns before copying them onto the target
+      db.delete(concerts).where(eq(concerts.id, duplicate.id)),
+      db
+        .update(concerts)
+        .set({
+          ticketmasterId: target.ticketmasterId ?? duplicate.ticketmasterId ?? parseExternalConcertId(duplicate.id).ticketmasterId,
+          setlistFmId: target.setlistFmId ?? duplicate.setlistFmId ?? parseExternalConcertId(duplicate.id).setlistFmId,
+          imageUrl: target.imageUrl ?? duplicate.imageUrl,
+          ticketUrl: target.ticketUrl ?? duplicate.ticketUrl,
+          updatedAt: new Date(),
+        })
+        .where(eq(concerts.id, target.id)),
+    ]);
+
+    await Promise.all([
+      target.artistId && this.refreshArtistCounts(target.artistId),
+      duplicate.artistId && duplicate.artistId !== target.artistId && this.refreshArtistCounts(duplicate.artistId),
+      target.venueId && this.refreshVenueRating(target.venueId),
+      duplicate.venueId && duplicate.venueId !== target.venueId && this.refreshVenueRating(duplicate.venueId),
+    ]);
+    return this.getConcert(target.id);
+  }
+
+  // Backfills match keys for older rows and folds every duplicate group into its oldest concert.
+  // Keys with an empty part predate matching non-Latin names and are rebuilt too.
+  async deduplicateConcerts(): Promise<number> {
+    const unkeyed = await db
+      .select()
+      .from(concerts)
+      .where(or(
+        sql`${concerts.matchKey} IS NULL`,
+        sql`${concerts.matchKey} LIKE '|%'`,
+        sql`${concerts.matchKey} LIKE '%||%'`,
+      ));
+    for (const concert of unkeyed) {
+      await db
+        .update(concerts)
+        .set({ matchKey: buildConcertMatchKey(concert) })
+        .where(eq(concerts.id, concert.id));
+    }
+
+    const duplicateKeys = await db
+      .select({ matchKey: concerts.matchKey })
+      .from(concerts)
+      .where(sql`${concerts.matchKey} IS NOT NULL`)
+      .groupBy(concerts.matchKey)
+      .having(sql`count(*) > 1`);
+
+    let merged = 0;
+    for (const { matchKey } of duplicateKeys) {
+      const group = await db
+        .select({ id: concerts.id, time: concerts.time })
+        .from(concerts)
+        .where(eq(concerts.matchKey, matchKey!))
+        .orderBy(concerts.createdAt);
+      // Shows at different start times stay apart; each keeps its own duplicates
+      const targets: typeof group = [];
+      for (const concert of group) {
+        const target = targets.find(target => !startTimesDiffer(target.time, concert.time));
+        if (!target) {
+          targets.push(concert);
+          continue;
+        }
+        await this.mergeConcerts(target.id, concert.id);
+        merged++;
+      }
+    }
+    return merged;
+  }
+
+  // Fills startsAt and the price range on rows stored before they were parsed.
+  // Rows whose strings can't be parsed ("TBA") are marked too, so each row is tried once.
+  async backfillConcertFields(): Promise<number> {
+    const pending = await db
+      .select()
+      .from(concerts)
+      .where(isNull(concerts.fieldsParsedAt));
+
+    let updated = 0;
+    for (const concert of pending) {
+      const fields = deriveConcertFields(concert);
+      await db.update(concerts).set({ ...fields, fieldsParsedAt: new Date() }).where(eq(concerts.id, concert.id));
+      if (fields.startsAt || fields.priceMin !== null) updated++;
+    }
+    return updated;
+  }
+
+  // Concert edits & history
+  // Applies the edit and records what changed; edits that change nothing leave no revision
+  async editConcert(
+    id: string,
+    updates: Partial<InsertConcert>,
+    editorId: string | null,
+    source?: { proposalId?: string; revertOf?: string },
+  ): Promise<{ concert: Concert; revision: ConcertRevision | null } | undefined> {
+    const existing = await this.getConcert(id);
+    if (!existing) return undefined;
+
+    const changes = diffConcertFields(existing, updates);
+    if (Object.keys(changes).length === 0) return { concert: existing, revision: null };
+
+    const changedFields = Object.fromEntries(Object.entries(changes).map(([field, { to }]) => [field, to]));
+    const concert = await this.updateConcert(existing.id, changedFields as Partial<InsertConcert>);
+    if (!concert) return undefined;
+    await this.applyConcertScheduleChange(existing, concert);
+
+    const [revision] = await db
+      .insert(concertRevisions)
+      .values({
+        concertId: concert.id,
+        editedBy: editorId,
+        changes,
+        proposalId: source?.proposalId ?? null,
+        revertOf: source?.revertOf ?? null,
+      })
+      .returning();
+    return { concert, revision };
+  }
+
+  // Null when the proposal wouldn't change anything
+  async createConcertEditProposal(concertId: string, proposedBy: string, edit: ConcertEdit, note?: string | null): Promise<ConcertEditProposal | null> {
+    const concert = await this.getConcert(concertId);
+    if (!concert) return null;
+
+    const changes = diffConcertFields(concert, edit);
+    if (Object.keys(changes).length === 0) return null;
+
+    const [proposal] = await db
+      .insert(concertEditProposals)
+      .values({ concertId: concert.id, proposedBy, changes, note: note || null })
+      .returning();
+
+    if (concert.createdBy && concert.createdBy !== proposedBy) {
+      const proposer = await this.getUser(proposedBy);
+      await this.dispatchNotification({
+        userId: concert.createdBy,
+        type: 'concert_edit_proposal',
+        title: 'Edit suggested',
+        message: `${this.getDisplayName(proposer)} suggested changes to ${concert.artist} at ${concert.venue}`,
+        link: `/concerts/${concert.id}`,
+        relatedUserId: proposedBy,
+        relatedConcertId: concert.id,
+      });
+    }
+    return proposal;
+  }
+
+  async getConcertEditProposals(concertId: string, options?: { pendingOnly?: boolean }): Promise<ConcertEditProposalWithUser[]> {
+    concertId = await this.resolveConcertId(concertId);
+    const rows = await db
+      .select({
+        proposal: concertEditProposals,
+        proposer: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(concertEditProposals)
+      .leftJoin(users, eq(concertEditProposals.proposedBy, users.id))
+      .where(and(
+        eq(concertEditProposals.concertId, concertId),
+        options?.pendingOnly ? eq(concertEditProposals.status, 'pending') : undefined,
+      ))
+      .orderBy(desc(concertEditProposals.createdAt));
+    return rows.map(row => ({ ...row.proposal, proposer: row.proposer }));
+  }
+
+  async getConcertEditProposal(id: string): Promise<ConcertEditProposal | undefined> {
+    const [proposal] = await db.select().from(concertEditProposals).where(eq(concertEditProposals.id, id)).limit(1);
+    return proposal;
+  }
+
+  // Undefined if the proposal was already reviewed. Accepting applies the
+  // proposed values on top of the concert as it is now.
+  async reviewConcertEditProposal(id: string, reviewerId: string, accept: boolean): Promise<{ proposal: ConcertEditProposal; concert?: Concert } | undefined> {
+    const [proposal] = await db
+      .update(concertEditProposals)
+      .set({ status: accept ? 'accepted' : 'rejected', reviewedBy: reviewerId, reviewedAt: new Date() })
+      .where(and(eq(concertEditProposals.id, id), eq(concertEditProposals.status, 'pending')))
+      .returning();
+    if (!proposal) return undefined;
+
+    let concert: Concert | undefined;
+    if (accept) {
+      const updates = Object.fromEntries(Object.entries(proposal.changes).map(([field, { to }]) => [field, to]));
+      concert = (await this.editConcert(proposal.concertId, updates as Partial<InsertConcert>, proposal.proposedBy, { proposalId: proposal.id }))?.concert;
+    }
+
+    if (proposal.proposedBy !== reviewerId) {
+      const target = concert ?? await this.getConcert(proposal.concertId);
+      await this.dispatchNotification({
+        userId: proposal.proposedBy,
+        type: 'concert_edit_reviewed',
+        title: accept ? 'Edit accepted' : 'Edit not accepted',
+        message: target
+          ? `Your suggested changes to ${target.artist} at ${target.venue} were ${accept ? 'accepted' : 'rejected'}`
+          : `Your suggested changes were ${accept ? 'accepted' : 'rejected'}`,
+        link: `/concerts/${proposal.concertId}`,
+        relatedUserId: reviewerId,
+        relatedConcertId: proposal.concertId,
+      });
+    }
+    return { proposal, concert };
+  }
+
+  async getConcertRevisions(concertId: string): Promise<ConcertRevisionWithUser[]> {
+    concertId = await this.resolveConcertId(concertId);
+    const rows = await db
+      .select({
+        revision: concertRevisions,
+        editor: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(concertRevisions)
+      .leftJoin(users, eq(concertRevisions.editedBy, users.id))
+      .where(eq(concertRevisions.concertId, concertId))
+      .orderBy(desc(concertRevisions.createdAt));
+    return rows.map(row => ({ ...row.revision, editor: row.editor }));
+  }
+
+  async getConcertRevision(id: string): Promise<ConcertRevision | undefined> {
+    const [revision] = await db.select().from(concertRevisions).where(eq(concertRevisions.id, id)).limit(1);
+    return revision;
+  }
+
+  // Puts back the revision's "from" values, recorded as a new revision
+  async revertConcertRevision(id: string, editorId: string): Promise<{ concert: Concert; revision: ConcertRevision | null } | undefined> {
+    const revision = await this.getConcertRevision(id);
+    if (!revision) return undefined;
+
+    const updates = Object.fromEntries(Object.entries(revision.changes).map(([field, { from }]) => [field, from]));
+    return this.editConcert(revision.concertId, updates as Partial<InsertConcert>, editorId, { revertOf: revision.id });
+  }
+
+  // Reviews
+  async getReview(id: string): Promise<Review | undefined> {
+    const result = await db.select().from(reviews).where(eq(reviews.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getReviewsForConcert(concertId: string, currentUserId?: string): Promise<ReviewWithUser[]> {
+    concertId = await this.resolveConcertId(concertId);
+    const result = await db
+      .select({
+        review: reviews,
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+        concert: concerts,
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(eq(reviews.concertId, concertId), this.reviewAuthorVisibleTo(currentUserId)))
+      .orderBy(desc(reviews.createdAt));
+
+    if (result.length === 0) return [];
+
+    const reviewIds = result.map(row => row.review.id);
+
+    // Batch check if current user liked any of these reviews (fix N+1 query)
+    let likedReviewIds = new Set<string>();
+    if (currentUserId) {
+      const likes = await db
+        .select({ reviewId: reviewLikes.reviewId })
+        .from(reviewLikes)
+        .where(
+          and(
+            eq(reviewLikes.userId, currentUserId),
+            inArray(reviewLikes.reviewId, reviewIds)
+          )
+        );
+      likedReviewIds = new Set(likes.map(like => like.reviewId));
+    }
+
+    // Batch get likes counts for all reviews
+    const likesCounts = await db
+      .select({
+        reviewId: reviewLikes.reviewId,
+        count: count(),
+      })
+      .from(reviewLikes)
+      .where(inArray(reviewLikes.reviewId, reviewIds))
+      .groupBy(reviewLikes.reviewId);
+    
+    const likesCountMap = new Map(likesCounts.map(item => [item.reviewId, Number(item.count)]));
+
+    // Batch get comments counts for all reviews
+    const commentsCounts = await db
+      .select({
+        reviewId: reviewComments.reviewId,
+        count: count(),
+      })
+      .from(reviewComments)
+      .where(and(inArray(reviewComments.reviewId, reviewIds), commentNotHidden))
+      .groupBy(reviewComments.reviewId);
+    
+    const commentsCountMap = new Map(commentsCounts.map(item => [item.reviewId, Number(item.count)]));
+
+    return result.map(row => ({
+      ...row.review,
       user: row.user,
       concert: row.concert,
       isLiked: likedReviewIds.has(row.review.id),
@@ -570,7 +1601,7 @@ export class PostgresStorage implements IStorage {
       .from(reviews)
       .innerJoin(users, eq(reviews.userId, users.id))
       .innerJoin(concerts, eq(reviews.concertId, concerts.id))
-      .where(eq(reviews.userId, userId))
+      .where(and(eq(reviews.userId, userId), reviewNotHidden))
       .orderBy(desc(reviews.createdAt));
 
     if (result.length === 0) return [];
@@ -611,7 +1642,7 @@ export class PostgresStorage implements IStorage {
         count: count(),
       })
       .from(reviewComments)
-      .where(inArray(reviewComments.reviewId, reviewIds))
+      .where(and(inArray(reviewComments.reviewId, reviewIds), commentNotHidden))
       .groupBy(reviewComments.reviewId);
     
     const commentsCountMap = new Map(commentsCounts.map(item => [item.reviewId, Number(item.count)]));
@@ -629,9 +1660,17 @@ export class PostgresStorage implements IStorage {
   async getAllReviews(options?: {
     limit?: number;
     offset?: number;
-    sort?: 'recent' | 'rating' | 'oldest';
+    sort?: 'recent' | 'rating' | 'oldest' | 'trending';
+    windowDays?: number;
+    currentUserId?: string;
   }): Promise<ReviewWithUser[]> {
-    const { limit = 20, offset = 0, sort = 'recent' } = options || {};
+    const {
+      limit = 20,
+      offset = 0,
+      sort = 'recent',
+      windowDays = DEFAULT_TRENDING_WINDOW_DAYS,
+      currentUserId,
+    } = options || {};
     
     let query = db
       .select({
@@ -655,6 +1694,7 @@ export class PostgresStorage implements IStorage {
       .from(reviews)
       .innerJoin(users, eq(reviews.userId, users.id))
       .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(this.reviewAuthorVisibleTo(currentUserId))
       .limit(limit)
       .offset(offset);
 
@@ -669,95 +1709,251 @@ export class PostgresStorage implements IStorage {
       case 'rating':
         query = query.orderBy(desc(reviews.overallRating), desc(reviews.createdAt)) as any;
         break;
+      case 'trending':
+        query = query.orderBy(desc(reviewTrendingScore(windowDays)), desc(reviews.createdAt)) as any;
+        break;
       default:
         query = query.orderBy(desc(reviews.createdAt)) as any;
     }
 
     const result = await query;
 
-    if (result.length === 0) return [];
+    return this.withReviewEngagement(result, currentUserId);
+  }
 
-    const reviewIds = result.map(row => row.review.id);
+  async getFeed(userId: string, options?: { limit?: number; cursor?: string }): Promise<FeedPage> {
+    const { limit = 20, cursor } = options || {};
 
-    // Batch get likes counts for all reviews
-    const likesCounts = await db
-      .select({
-        reviewId: reviewLikes.reviewId,
-        count: count(),
-      })
-      .from(reviewLikes)
-      .where(inArray(reviewLikes.reviewId, reviewIds))
-      .groupBy(reviewLikes.reviewId);
-    
-    const likesCountMap = new Map(likesCounts.map(item => [item.reviewId, Number(item.count)]));
+    const followedUserIds = db
+      .select({ id: userFollows.followingId })
+      .from(userFollows)
+      .where(and(eq(userFollows.followerId, userId), eq(userFollows.status, 'accepted')));
+    const followedArtistIds = db
+      .select({ id: artistFollows.artistId })
+      .from(artistFollows)
+      .where(eq(artistFollows.userId, userId));
 
-    // Batch get comments counts for all reviews
-    const commentsCounts = await db
+    const [anyFollowedUser, anyFollowedArtist] = await Promise.all([
+      db.select({ id: userFollows.id }).from(userFollows).where(and(eq(userFollows.followerId, userId), eq(userFollows.status, 'accepted'))).limit(1),
+      db.select({ id: artistFollows.id }).from(artistFollows).where(eq(artistFollows.userId, userId)).limit(1),
+    ]);
+
+    // Nothing to personalize yet - show what's popular instead of an empty timeline
+    if (anyFollowedUser.length === 0 && anyFollowedArtist.length === 0) {
+      const trending = await this.getAllReviews({ limit, sort: 'trending', currentUserId: userId });
+      return { reviews: trending, nextCursor: null, source: 'trending' };
+    }
+
+    const conditions = [
+      or(
+        inArray(reviews.userId, followedUserIds),
+        inArray(concerts.artistId, followedArtistIds)
+      ),
+      this.reviewAuthorVisibleTo(userId),
+    ];
+
+    const position = decodeFeedCursor(cursor);
+    if (position) {
+      conditions.push(
+        sql`(${reviews.createdAt}, ${reviews.id}) < (${position.createdAt}::timestamp, ${position.id})`
+      );
+    }
+
+    // Fetch one extra row to know whether there's another page
+    const result = await db
       .select({
-        reviewId: reviewComments.reviewId,
-        count: count(),
+        review: reviews,
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+        concert: concerts,
+        cursorTime: feedCursorTime,
       })
-      .from(reviewComments)
-      .where(inArray(reviewComments.reviewId, reviewIds))
-      .groupBy(reviewComments.reviewId);
-    
-    const commentsCountMap = new Map(commentsCounts.map(item => [item.reviewId, Number(item.count)]));
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(...conditions))
+      .orderBy(desc(reviews.createdAt), desc(reviews.id))
+      .limit(limit + 1);
 
-    // For getAllReviews, we don't pass currentUserId to keep it public and simple
-    // If authentication is needed later, it can be added as a parameter
-    return result.map(row => ({
-      ...row.review,
-      user: row.user,
-      concert: row.concert,
-      isLiked: false, // Default to false for public access
-      likesCount: likesCountMap.get(row.review.id) || 0,
-      commentsCount: commentsCountMap.get(row.review.id) || 0,
-    }));
+    const page = result.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = result.length > limit && last?.cursorTime
+      ? encodeFeedCursor(last.cursorTime, last.review.id)
+      : null;
+
+    return {
+      reviews: await this.withReviewEngagement(page, userId),
+      nextCursor,
+      source: 'following',
+    };
   }
 
   async createReview(review: InsertReview): Promise<Review> {
     const result = await db.insert(reviews).values(review).returning();
+    await this.refreshVenueRatingForConcert(result[0].concertId);
+    await this.notifyFollowersOfReview(result[0]);
     return result[0];
   }
 
   async updateReview(id: string, updates: Partial<InsertReview>): Promise<Review | undefined> {
+    const existing = await this.getReview(id);
+    if (!existing) return undefined;
+
+    // Keep the version being replaced when the ratings or text change
+    const contentChanged = reviewRevisionFields.some(field => updates[field] !== undefined && updates[field] !== existing[field]);
+    if (contentChanged) {
+      await db.insert(reviewRevisions).values({
+        reviewId: existing.id,
+        overallRating: existing.overallRating,
+        performanceRating: existing.performanceRating,
+        soundRating: existing.soundRating,
+        venueRating: existing.venueRating,
+        valueRating: existing.valueRating,
+        reviewText: existing.reviewText,
+      });
+    }
+
+    const now = new Date();
     const result = await db
       .update(reviews)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, updatedAt: now, ...(contentChanged && { editedAt: now }) })
       .where(eq(reviews.id, id))
       .returning();
+    if (result[0] && updates.venueRating !== undefined) {
+      await this.refreshVenueRatingForConcert(result[0].concertId);
+    }
     return result[0];
   }
 
   async deleteReview(id: string): Promise<boolean> {
     const result = await db.delete(reviews).where(eq(reviews.id, id)).returning();
+    if (result[0]) {
+      await this.refreshVenueRatingForConcert(result[0].concertId);
+    }
     return result.length > 0;
   }
 
-  // Wishlist
-  async addToWishlist(wishlist: InsertConcertWishlist): Promise<ConcertWishlist> {
-    const result = await db.insert(concertWishlists).values(wishlist).returning();
-    return result[0];
+  // Newest first; the current version is the review itself
+  async getReviewRevisions(reviewId: string): Promise<ReviewRevision[]> {
+    return db
+      .select()
+      .from(reviewRevisions)
+      .where(eq(reviewRevisions.reviewId, reviewId))
+      .orderBy(desc(reviewRevisions.createdAt));
   }
 
-  async removeFromWishlist(userId: string, concertId: string): Promise<boolean> {
-    const result = await db
-      .delete(concertWishlists)
-      .where(
-        and(
-          eq(concertWishlists.userId, userId),
-          eq(concertWishlists.concertId, concertId)
-        )
-      )
-      .returning();
-    return result.length > 0;
+  // Review drafts
+  async getReviewDrafts(userId: string): Promise<ReviewDraft[]> {
+    return db
+      .select()
+      .from(reviewDrafts)
+      .where(eq(reviewDrafts.userId, userId))
+      .orderBy(desc(reviewDrafts.updatedAt));
   }
 
-  async getUserWishlist(userId: string): Promise<ConcertWithRating[]> {
-    const result = await db
-      .select({
-        concert: concerts,
-        avgRating: avg(reviews.overallRating),
+  async getReviewDraft(userId: string, id: string): Promise<ReviewDraft | undefined> {
+    const [draft] = await db
+      .select()
+      .from(reviewDrafts)
+      .where(and(eq(reviewDrafts.id, id), eq(reviewDrafts.userId, userId)))
+      .limit(1);
+    return draft;
+  }
+
+  // One draft per concert, so saving again replaces it. droppedPhotos are the
+  // photos the previous save had that this one doesn't.
+  async saveReviewDraft(userId: string, draft: InsertReviewDraft): Promise<{ draft: ReviewDraft; droppedPhotos: string[] }> {
+    const [previous] = await db
+      .select({ photos: reviewDrafts.photos })
+      .from(reviewDrafts)
+      .where(and(eq(reviewDrafts.userId, userId), eq(reviewDrafts.concertId, draft.concertId)))
+      .limit(1);
+
+    const [saved] = await db
+      .insert(reviewDrafts)
+      .values({ ...draft, userId })
+      .onConflictDoUpdate({
+        target: [reviewDrafts.userId, reviewDrafts.concertId],
+        set: { ...draft, updatedAt: new Date() },
+      })
+      .returning();
+
+    const droppedPhotos = (previous?.photos ?? []).filter(path => !saved.photos.includes(path));
+    return { draft: saved, droppedPhotos };
+  }
+
+  async deleteReviewDraft(userId: string, id: string): Promise<ReviewDraft | undefined> {
+    const [deleted] = await db
+      .delete(reviewDrafts)
+      .where(and(eq(reviewDrafts.id, id), eq(reviewDrafts.userId, userId)))
+      .returning();
+    return deleted;
+  }
+
+  // Publishing a review replaces its draft; the photos move to the review
+  async deleteReviewDraftsForConcert(userId: string, concertIds: string[]): Promise<void> {
+    if (concertIds.length === 0) return;
+    await db
+      .delete(reviewDrafts)
+      .where(and(eq(reviewDrafts.userId, userId), inArray(reviewDrafts.concertId, concertIds)));
+  }
+
+  // The given upload paths that no review, draft, avatar or image column uses anymore
+  async getUnreferencedPhotos(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+    const [reviewRows, draftRows, ...imageRows] = await Promise.all([
+      db.select({ photos: reviews.photos }).from(reviews).where(arrayOverlaps(reviews.photos, paths)),
+      db.select({ photos: reviewDrafts.photos }).from(reviewDrafts).where(arrayOverlaps(reviewDrafts.photos, paths)),
+      db.select({ url: users.profileImageUrl }).from(users).where(inArray(users.profileImageUrl, paths)),
+      db.select({ url: concerts.imageUrl }).from(concerts).where(inArray(concerts.imageUrl, paths)),
+      db.select({ url: artists.imageUrl }).from(artists).where(inArray(artists.imageUrl, paths)),
+      db.select({ url: venues.imageUrl }).from(venues).where(inArray(venues.imageUrl, paths)),
+    ]);
+    const referenced = new Set([
+      ...[...reviewRows, ...draftRows].flatMap(row => row.photos ?? []),
+      ...imageRows.flat().map(row => row.url),
+    ]);
+    return paths.filter(path => !referenced.has(path));
+  }
+
+  // Wishlist
+  async addToWishlist(wishlist: InsertConcertWishlist): Promise<ConcertWishlist> {
+    const concertId = await this.resolveConcertId(wishlist.concertId);
+    const result = await db.insert(concertWishlists).values({ ...wishlist, concertId }).returning();
+    return result[0];
+  }
+
+  async removeFromWishlist(userId: string, concertId: string): Promise<boolean> {
+    concertId = await this.resolveConcertId(concertId);
+    const result = await db
+      .delete(concertWishlists)
+      .where(
+        and(
+          eq(concertWishlists.userId, userId),
+          eq(concertWishlists.concertId, concertId)
+        )
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  async getUserWishlist(userId: string): Promise<ConcertWithRating[]> {
+    const result = await db
+      .select({
+        concert: concerts,
+        avgRating: avg(reviews.overallRating),
         avgPerformance: avg(reviews.performanceRating),
         avgSound: avg(reviews.soundRating),
         avgVenue: avg(reviews.venueRating),
@@ -767,8 +1963,8 @@ export class PostgresStorage implements IStorage {
       })
       .from(concertWishlists)
       .innerJoin(concerts, eq(concertWishlists.concertId, concerts.id))
-      .leftJoin(reviews, eq(concerts.id, reviews.concertId))
-      .where(eq(concertWishlists.userId, userId))
+      .leftJoin(reviews, and(eq(concerts.id, reviews.concertId), reviewNotHidden))
+      .where(and(eq(concertWishlists.userId, userId), concertNotDeleted))
       .groupBy(concerts.id, concertWishlists.createdAt)
       .orderBy(desc(concertWishlists.createdAt));
 
@@ -785,6 +1981,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async isInWishlist(userId: string, concertId: string): Promise<boolean> {
+    concertId = await this.resolveConcertId(concertId);
     const result = await db
       .select()
       .from(concertWishlists)
@@ -809,6 +2006,21 @@ export class PostgresStorage implements IStorage {
           .set({ likes: sql`${reviews.likes} + 1` })
           .where(eq(reviews.id, like.reviewId))
       ]);
+
+      const review = await this.getReview(like.reviewId);
+      if (review && review.userId !== like.userId && !(await this.hasUnreadLikeNotification(review.id, like.userId))) {
+        const liker = await this.getUser(like.userId);
+        await this.dispatchNotification({
+          userId: review.userId,
+          type: 'like',
+          title: 'New like',
+          message: `${this.getDisplayName(liker)} liked your review`,
+          link: `/concerts/${review.concertId}`,
+          relatedUserId: like.userId,
+          relatedReviewId: review.id,
+          relatedConcertId: review.concertId,
+        });
+      }
       return result[0];
     } catch (error) {
       // If constraint violation (duplicate like), check if it exists and return it
@@ -909,7 +2121,7 @@ export class PostgresStorage implements IStorage {
       })
       .from(reviewComments)
       .leftJoin(users, eq(reviewComments.userId, users.id))
-      .where(eq(reviewComments.reviewId, reviewId))
+      .where(and(eq(reviewComments.reviewId, reviewId), commentNotHidden, userNotHidden))
       .orderBy(desc(reviewComments.createdAt));
 
     return result.map(row => ({
@@ -920,6 +2132,21 @@ export class PostgresStorage implements IStorage {
 
   async createReviewComment(comment: InsertReviewComment): Promise<ReviewComment> {
     const result = await db.insert(reviewComments).values(comment).returning();
+
+    const review = await this.getReview(comment.reviewId);
+    if (review && review.userId !== comment.userId) {
+      const commenter = await this.getUser(comment.userId);
+      await this.dispatchNotification({
+        userId: review.userId,
+        type: 'comment',
+        title: 'New comment',
+        message: `${this.getDisplayName(commenter)} commented on your review`,
+        link: `/concerts/${review.concertId}`,
+        relatedUserId: comment.userId,
+        relatedReviewId: review.id,
+        relatedConcertId: review.concertId,
+      });
+    }
     return result[0];
   }
 
@@ -940,13 +2167,35 @@ export class PostgresStorage implements IStorage {
     const result = await db
       .select({ count: count() })
       .from(reviewComments)
-      .where(eq(reviewComments.reviewId, reviewId));
+      .where(and(eq(reviewComments.reviewId, reviewId), commentNotHidden));
     return result[0]?.count || 0;
   }
 
   // User Follows
+  // Following a private account only creates a pending request until it's approved
   async followUser(follow: InsertUserFollow): Promise<UserFollow> {
-    const result = await db.insert(userFollows).values(follow).returning();
+    const [target, follower] = await Promise.all([
+      this.getUser(follow.followingId),
+      this.getUser(follow.followerId),
+    ]);
+    const status = target?.isPrivate ? 'pending' : 'accepted';
+    const result = await db.insert(userFollows).values({ ...follow, status }).returning();
+
+    await this.dispatchNotification(status === 'pending' ? {
+      userId: follow.followingId,
+      type: 'follow_request',
+      title: 'Follow request',
+      message: `${this.getDisplayName(follower)} wants to follow you`,
+      link: '/notifications',
+      relatedUserId: follow.followerId,
+    } : {
+      userId: follow.followingId,
+      type: 'follow',
+      title: 'New follower',
+      message: `${this.getDisplayName(follower)} started following you`,
+      link: follower?.username ? `/profile/${follower.username}` : null,
+      relatedUserId: follow.followerId,
+    });
     return result[0];
   }
 
@@ -964,8 +2213,12 @@ export class PostgresStorage implements IStorage {
   }
 
   async isFollowing(followerId: string, followingId: string): Promise<boolean> {
+    return (await this.getFollowStatus(followerId, followingId)) === 'accepted';
+  }
+
+  async getFollowStatus(followerId: string, followingId: string): Promise<FollowStatus> {
     const result = await db
-      .select()
+      .select({ status: userFollows.status })
       .from(userFollows)
       .where(
         and(
@@ -974,12 +2227,1237 @@ export class PostgresStorage implements IStorage {
         )
       )
       .limit(1);
+    return (result[0]?.status as FollowStatus) || 'none';
+  }
+
+  async canViewUserContent(viewerId: string | undefined, userId: string): Promise<boolean> {
+    if (viewerId === userId) return true;
+    const user = await this.getUser(userId);
+    if (!user || user.hiddenAt) return false;
+    if (!user.isPrivate) return true;
+    return !!viewerId && await this.isFollowing(viewerId, userId);
+  }
+
+  async getFollowRequests(userId: string): Promise<PublicUser[]> {
+    const result = await db
+      .select({ 
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        }
+      })
+      .from(userFollows)
+      .innerJoin(users, eq(userFollows.followerId, users.id))
+      .where(and(eq(userFollows.followingId, userId), eq(userFollows.status, 'pending')))
+      .orderBy(desc(userFollows.createdAt));
+    return result.map(row => row.user);
+  }
+
+  // Approving flips the pending row to accepted; denying removes it so they can ask again later
+  async respondToFollowRequest(userId: string, followerId: string, approve: boolean): Promise<boolean> {
+    const pendingRequest = and(
+      eq(userFollows.followerId, followerId),
+      eq(userFollows.followingId, userId),
+      eq(userFollows.status, 'pending')
+    );
+
+    if (!approve) {
+      const result = await db.delete(userFollows).where(pendingRequest).returning();
+      return result.length > 0;
+    }
+
+    const result = await db
+      .update(userFollows)
+      .set({ status: 'accepted' })
+      .where(pendingRequest)
+      .returning();
+    if (result.length === 0) return false;
+
+    const target = await this.getUser(userId);
+    await this.dispatchNotification({
+      userId: followerId,
+      type: 'follow_accepted',
+      title: 'Follow request approved',
+      message: `${this.getDisplayName(target)} approved your follow request`,
+      link: target?.username ? `/profile/${target.username}` : null,
+      relatedUserId: userId,
+    });
+    return true;
+  }
+
+  // Reviews by private accounts are only visible to the author and approved followers
+  private reviewAuthorVisibleTo(currentUserId?: string) {
+    const isPublicAuthor = or(eq(users.isPrivate, false), sql`${users.isPrivate} IS NULL`);
+    if (!currentUserId) return and(reviewNotHidden, userNotHidden, isPublicAuthor);
+
+    return and(
+      reviewNotHidden,
+      userNotHidden,
+      or(
+        isPublicAuthor,
+        eq(reviews.userId, currentUserId),
+        inArray(
+          reviews.userId,
+          db.select({ id: userFollows.followingId })
+            .from(userFollows)
+            .where(and(eq(userFollows.followerId, currentUserId), eq(userFollows.status, 'accepted')))
+        )
+      )
+    );
+  }
+
+  async getFollowers(userId: string): Promise<PublicUser[]> {
+    const result = await db
+      .select({ 
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        }
+      })
+      .from(userFollows)
+      .innerJoin(users, eq(userFollows.followerId, users.id))
+      .where(and(eq(userFollows.followingId, userId), eq(userFollows.status, 'accepted')))
+      .orderBy(desc(userFollows.createdAt));
+    return result.map(row => row.user);
+  }
+
+  async getFollowing(userId: string): Promise<PublicUser[]> {
+    const result = await db
+      .select({ 
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        }
+      })
+      .from(userFollows)
+      .innerJoin(users, eq(userFollows.followingId, users.id))
+      .where(and(eq(userFollows.followerId, userId), eq(userFollows.status, 'accepted')))
+      .orderBy(desc(userFollows.createdAt));
+    return result.map(row => row.user);
+  }
+
+  // Notifications
+  async getNotifications(userId: string, options?: {
+    limit?: number;
+    offset?: number;
+    unreadOnly?: boolean;
+  }): Promise<NotificationWithUser[]> {
+    const { limit = 20, offset = 0, unreadOnly = false } = options || {};
+
+    const conditions = [eq(notifications.userId, userId)];
+    if (unreadOnly) {
+      conditions.push(eq(notifications.isRead, false));
+    }
+
+    const result = await db
+      .select({
+        notification: notifications,
+        relatedUser: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+      })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.relatedUserId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return result.map(row => ({
+      ...row.notification,
+      relatedUser: row.relatedUser,
+    }));
+  }
+
+  async getUnreadNotificationsCount(userId: string): Promise<number> {
+    const result = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.isRead, false)
+        )
+      );
+    return result[0]?.count || 0;
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await db.insert(notifications).values(notification).returning();
+    return result[0];
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(
+        and(
+          eq(notifications.id, id),
+          eq(notifications.userId, userId)
+        )
+      )
+      .returning({ id: notifications.id });
+    return result.length > 0;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.isRead, false)
+        )
+      )
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  // User Settings
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    const result = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+    if (result[0]) return result[0];
+
+    // Lazily create the defaults row so every user has exactly one settings record
+    const [created] = await db
+      .insert(userSettings)
+      .values({ userId })
+      .onConflictDoNothing({ target: userSettings.userId })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+    return existing;
+  }
+
+  async updateUserSettings(userId: string, updates: Partial<Omit<InsertUserSettings, 'userId'>>): Promise<UserSettings> {
+    const [result] = await db
+      .insert(userSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Calendar feed
+  async getCalendarToken(userId: string, options?: { reset?: boolean }): Promise<string> {
+    const settings = await this.getUserSettings(userId);
+    if (settings.calendarToken && !options?.reset) return settings.calendarToken;
+
+    // Resetting replaces the token, so any old subscription URL stops working
+    const calendarToken = randomBytes(24).toString('base64url');
+    await db
+      .update(userSettings)
+      .set({ calendarToken, updatedAt: new Date() })
+      .where(eq(userSettings.userId, userId));
+    return calendarToken;
+  }
+
+  async getUserIdByCalendarToken(token: string): Promise<string | undefined> {
+    const [settings] = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.calendarToken, token))
+      .limit(1);
+    return settings?.userId;
+  }
+
+  // Wishlisted and reviewed concerts, each listed once
+  async getCalendarConcerts(userId: string): Promise<CalendarEntry[]> {
+    const [wishlisted, reviewed] = await Promise.all([
+      db
+        .select({ concert: concerts })
+        .from(concertWishlists)
+        .innerJoin(concerts, eq(concertWishlists.concertId, concerts.id))
+        .where(and(eq(concertWishlists.userId, userId), concertNotDeleted)),
+      db
+        .select({ concert: concerts, rating: reviews.overallRating })
+        .from(reviews)
+        .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+        .where(and(eq(reviews.userId, userId), concertNotDeleted)),
+    ]);
+
+    const entries = new Map<string, CalendarEntry>();
+    for (const { concert } of wishlisted) {
+      entries.set(concert.id, { concert, wishlisted: true, rating: null });
+    }
+    for (const { concert, rating } of reviewed) {
+      const existing = entries.get(concert.id);
+      entries.set(concert.id, { concert, wishlisted: existing?.wishlisted ?? false, rating });
+    }
+    return Array.from(entries.values()).sort((a, b) => a.concert.date.localeCompare(b.concert.date));
+  }
+
+  // Concert reminders
+  async getDueConcertReminders(now: Date = new Date()): Promise<DueConcertReminder[]> {
+    // Days are counted in the venue's timezone so "today" means the day of the show where it happens
+    const timezone = sql`coalesce(${concerts.timezone}, 'UTC')`;
+    const daysUntil = sql<number>`((${concerts.startsAt} AT TIME ZONE ${timezone})::date - (${now.toISOString()}::timestamptz AT TIME ZONE ${timezone})::date)`;
+    const daysBefore = sql`coalesce(${userSettings.reminderDaysBefore}, 3)`;
+    const kind = sql`CASE WHEN ${daysUntil} = 0 THEN 'day_of' ELSE 'advance' END`;
+
+    const rows = await db
+      .select({
+        userId: concertWishlists.userId,
+        email: users.email,
+        emailNotifications: userSettings.emailNotifications,
+        concert: concerts,
+        daysUntil,
+      })
+      .from(concertWishlists)
+      .innerJoin(concerts, eq(concertWishlists.concertId, concerts.id))
+      .innerJoin(users, eq(concertWishlists.userId, users.id))
+      .leftJoin(userSettings, eq(concertWishlists.userId, userSettings.userId))
+      .where(and(
+        concertNotDeleted,
+        sql`coalesce(${userSettings.upcomingConcertReminders}, true)`,
+        sql`${concerts.startsAt} > ${now.toISOString()}::timestamptz`,
+        // No reminders for shows that aren't going ahead on their listed date
+        sql`coalesce(${concerts.status}, 'scheduled') NOT IN ('cancelled', 'postponed')`,
+        sql`${daysUntil} BETWEEN 0 AND ${daysBefore}`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${concertReminders}
+          WHERE ${concertReminders.userId} = ${concertWishlists.userId}
+            AND ${concertReminders.concertId} = ${concertWishlists.concertId}
+            AND ${concertReminders.kind} = ${kind}
+        )`,
+      ));
+
+    return rows.map(row => ({
+      userId: row.userId,
+      email: row.email,
+      emailNotifications: row.emailNotifications ?? true,
+      concert: row.concert,
+      kind: Number(row.daysUntil) === 0 ? 'day_of' : 'advance',
+      daysUntil: Number(row.daysUntil),
+    }));
+  }
+
+  // Returns the reminder id only to the caller that recorded it first, so
+  // overlapping runs or instances never send the same reminder twice
+  async claimConcertReminder(userId: string, concertId: string, kind: ConcertReminderKind): Promise<string | undefined> {
+    const [claimed] = await db
+      .insert(concertReminders)
+      .values({ userId, concertId, kind })
+      .onConflictDoNothing()
+      .returning({ id: concertReminders.id });
+    return claimed?.id;
+  }
+
+  // Gives up a claim whose notification couldn't be created, so the next tick retries it
+  async releaseConcertReminder(id: string): Promise<void> {
+    await db.delete(concertReminders).where(eq(concertReminders.id, id));
+  }
+
+  async markConcertReminderEmailed(id: string): Promise<void> {
+    await db
+      .update(concertReminders)
+      .set({ emailedAt: new Date() })
+      .where(eq(concertReminders.id, id));
+  }
+
+  // Ticketmaster status sync
+  async getConcertsDueForSync(options: { limit: number; checkedBefore: Date }): Promise<Concert[]> {
+    return db
+      .select()
+      .from(concerts)
+      .where(and(
+        isNotNull(concerts.ticketmasterId),
+        concertNotDeleted,
+        // Shows that have already happened won't change any more
+        or(isNull(concerts.startsAt), sql`${concerts.startsAt} > now() - interval '1 day'`),
+        or(isNull(concerts.statusCheckedAt), lt(concerts.statusCheckedAt, options.checkedBefore)),
+      ))
+      .orderBy(sql`${concerts.statusCheckedAt} NULLS FIRST`)
+      .limit(options.limit);
+  }
+
+  // API errors propagate so the caller can retry the concert on a later run
+  async syncTicketmasterConcert(concert: Concert): Promise<ConcertSyncResult> {
+    const markChecked = async () => {
+      const [checked] = await db
+        .update(concerts)
+        .set({ statusCheckedAt: new Date() })
+        .where(eq(concerts.id, concert.id))
+        .returning();
+      return checked ?? concert;
+    };
+
+    const event = concert.ticketmasterId ? await ticketmasterService.getEvent(concert.ticketmasterId) : null;
+    if (!event) {
+      // Delisted events keep their last known details
+      return { concert: await markChecked(), change: null };
+    }
+
+    const fresh = ticketmasterService.transformEvent(event);
+    const status: ConcertStatus = fresh.status;
+    const updates: Partial<InsertConcert> = { status };
+    // Postponed events often drop their date and venue; keep the last known ones
+    if (fresh.date) updates.date = fresh.date;
+    if (fresh.time && fresh.time !== 'TBA') updates.time = fresh.time;
+    if (fresh.timezone) updates.timezone = fresh.timezone;
+    if (fresh.venue !== 'TBA') {
+      updates.venue = fresh.venue;
+      updates.city = fresh.city;
+      updates.latitude = fresh.latitude;
+      updates.longitude = fresh.longitude;
+    }
+    if (fresh.ticketUrl) updates.ticketUrl = fresh.ticketUrl;
+    updates.endDate = fresh.endDate;
+    updates.isFestival = fresh.isFestival;
+
+    await this.updateConcert(concert.id, updates);
+    if (fresh.lineup?.length > 0) {
+      // Openers are often added after a show is first listed
+      await this.setConcertLineup(concert.id, fresh.lineup);
+    }
+    const updated = await markChecked();
+
+    const change = await this.applyConcertScheduleChange(concert, updated);
+    return { concert: updated, change };
+  }
+
+  // Shared by syncs and manual edits: a new date or time voids the reminders,
+  // and cancellations, postponements and reschedules reach the show's audience
+  private async applyConcertScheduleChange(previous: Concert, concert: Concert): Promise<ConcertSyncResult['change']> {
+    const moved = concert.date !== previous.date || concert.time !== previous.time;
+    let change: ConcertSyncResult['change'] = null;
+    if (concert.status === 'cancelled' && previous.status !== 'cancelled') {
+      change = 'cancelled';
+    } else if (concert.status === 'postponed' && previous.status !== 'postponed') {
+      change = 'postponed';
+    } else if (moved && concert.status !== 'cancelled') {
+      change = 'rescheduled';
+    }
+
+    if (moved) {
+      // Reminders were for the old date
+      await db.delete(concertReminders).where(eq(concertReminders.concertId, concert.id));
+    }
+    if (change) {
+      await this.notifyConcertStatusChange(previous, concert, change);
+    }
+    return change;
+  }
+
+  // Reports & moderation
+  // Reviews and comments belong to their author, a profile to its user
+  async getReportTargetAuthorId(targetType: ReportTargetType, targetId: string): Promise<string | undefined> {
+    if (targetType === 'review') {
+      const [review] = await db.select({ userId: reviews.userId }).from(reviews).where(eq(reviews.id, targetId)).limit(1);
+      return review?.userId;
+    }
+    if (targetType === 'comment') {
+      const [comment] = await db.select({ userId: reviewComments.userId }).from(reviewComments).where(eq(reviewComments.id, targetId)).limit(1);
+      return comment?.userId;
+    }
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, targetId)).limit(1);
+    return user?.id;
+  }
+
+  // Returns undefined when the reporter already reported this target. Once
+  // the open reports reach hideThreshold the content is hidden until a
+  // moderator dismisses them.
+  async createReport(reporterId: string, report: InsertReport, hideThreshold: number): Promise<{ report: Report; hidden: boolean } | undefined> {
+    const [created] = await db
+      .insert(reports)
+      .values({ ...report, reporterId })
+      .onConflictDoNothing()
+      .returning();
+    if (!created) return undefined;
+
+    const [open] = await db
+      .select({ count: count() })
+      .from(reports)
+      .where(and(
+        eq(reports.targetType, report.targetType),
+        eq(reports.targetId, report.targetId),
+        eq(reports.status, 'open'),
+      ));
+    const hidden = Number(open?.count ?? 0) >= hideThreshold
+      && await this.setContentHidden(report.targetType, report.targetId, true);
+    return { report: created, hidden };
+  }
+
+  async getModerationQueue(options?: { status?: 'open' | 'resolved'; limit?: number }): Promise<ModerationQueueItem[]> {
+    const { status = 'open', limit = 50 } = options || {};
+
+    const rows = await db
+      .select({ report: reports, reporterUsername: users.username })
+      .from(reports)
+      .leftJoin(users, eq(reports.reporterId, users.id))
+      .where(status === 'open' ? eq(reports.status, 'open') : inArray(reports.status, ['dismissed', 'actioned']))
+      .orderBy(desc(reports.createdAt))
+      // Enough rows to fill the page even when targets have many reports each
+      .limit(limit * 20);
+
+    const groups = new Map<string, ModerationQueueItem>();
+    for (const { report, reporterUsername } of rows) {
+      const key = `${report.targetType}:${report.targetId}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          targetType: report.targetType as ReportTargetType,
+          targetId: report.targetId,
+          status: report.status as ModerationQueueItem['status'],
+          reportCount: 0,
+          reports: [],
+          hidden: false,
+          content: null,
+        });
+      }
+      const group = groups.get(key)!;
+      group.reportCount++;
+      group.reports.push({ id: report.id, reason: report.reason, details: report.details, createdAt: report.createdAt, reporterUsername });
+    }
+
+    // The open queue puts the most reported content first; ties and resolved items stay newest first
+    let items = Array.from(groups.values());
+    if (status === 'open') items.sort((a, b) => b.reportCount - a.reportCount);
+    items = items.slice(0, limit);
+    const idsOf = (type: ReportTargetType) => items.filter(item => item.targetType === type).map(item => item.targetId);
+    const author = {
+      id: users.id,
+      username: users.username,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      profileImageUrl: users.profileImageUrl,
+      suspendedAt: users.suspendedAt,
+    };
+
+    const reviewIds = idsOf('review');
+    const commentIds = idsOf('comment');
+    const userIds = idsOf('user');
+    const [reviewRows, commentRows, userRows] = await Promise.all([
+      reviewIds.length > 0
+        ? db
+            .select({ id: reviews.id, text: reviews.reviewText, concertId: reviews.concertId, hiddenAt: reviews.hiddenAt, author })
+            .from(reviews)
+            .innerJoin(users, eq(reviews.userId, users.id))
+            .where(inArray(reviews.id, reviewIds))
+        : [],
+      commentIds.length > 0
+        ? db
+            .select({ id: reviewComments.id, text: reviewComments.commentText, concertId: reviews.concertId, hiddenAt: reviewComments.hiddenAt, author })
+            .from(reviewComments)
+            .innerJoin(reviews, eq(reviewComments.reviewId, reviews.id))
+            .innerJoin(users, eq(reviewComments.userId, users.id))
+            .where(inArray(reviewComments.id, commentIds))
+        : [],
+      userIds.length > 0
+        ? db
+            .select({ id: users.id, text: sql<string>`coalesce(${users.bio}, '')`, hiddenAt: users.hiddenAt, author })
+            .from(users)
+            .where(inArray(users.id, userIds))
+        : [],
+    ]);
+
+    const contentByKey = new Map<string, { hidden: boolean; content: NonNullable<ModerationQueueItem['content']> }>();
+    const addContent = (type: ReportTargetType, row: { id: string; text: string; hiddenAt: Date | null; author: typeof userRows[number]['author'] }, link: string | null) => {
+      const { suspendedAt, ...authorFields } = row.author;
+      contentByKey.set(`${type}:${row.id}`, {
+        hidden: !!row.hiddenAt,
+        content: { text: row.text, author: authorFields, authorSuspended: !!suspendedAt, link },
+      });
+    };
+    reviewRows.forEach(row => addContent('review', row, `/concerts/${row.concertId}`));
+    commentRows.forEach(row => addContent('comment', row, `/concerts/${row.concertId}`));
+    userRows.forEach(row => addContent('user', row, row.author.username ? `/profile/${row.author.username}` : null));
+
+    return items.map(item => ({ ...item, ...contentByKey.get(`${item.targetType}:${item.targetId}`) }));
+  }
+
+  async resolveReports(targetType: ReportTargetType, targetId: string, moderatorId: string, status: 'dismissed' | 'actioned'): Promise<number> {
+    const result = await db
+      .update(reports)
+      .set({ status, resolvedBy: moderatorId, resolvedAt: new Date() })
+      .where(and(eq(reports.targetType, targetType), eq(reports.targetId, targetId), eq(reports.status, 'open')))
+      .returning({ id: reports.id });
+    return result.length;
+  }
+
+  // Returns whether anything changed, so hiding twice is a no-op
+  async setContentHidden(targetType: ReportTargetType, targetId: string, hidden: boolean): Promise<boolean> {
+    const hiddenAt = hidden ? new Date() : null;
+    if (targetType === 'review') {
+      const result = await db
+        .update(reviews)
+        .set({ hiddenAt })
+        .where(and(eq(reviews.id, targetId), hidden ? isNull(reviews.hiddenAt) : isNotNull(reviews.hiddenAt)))
+        .returning();
+      // Hidden reviews don't count toward the venue's rating
+      if (result[0]) await this.refreshVenueRatingForConcert(result[0].concertId);
+      return result.length > 0;
+    }
+    if (targetType === 'comment') {
+      const result = await db
+        .update(reviewComments)
+        .set({ hiddenAt })
+        .where(and(eq(reviewComments.id, targetId), hidden ? isNull(reviewComments.hiddenAt) : isNotNull(reviewComments.hiddenAt)))
+        .returning({ id: reviewComments.id });
+      return result.length > 0;
+    }
+    const result = await db
+      .update(users)
+      .set({ hiddenAt })
+      .where(and(eq(users.id, targetId), hidden ? isNull(users.hiddenAt) : isNotNull(users.hiddenAt)))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async setUserSuspended(userId: string, suspended: boolean): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set({ suspendedAt: suspended ? new Date() : null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
+  // Artists
+  async getArtist(id: string): Promise<Artist | undefined> {
+    const result = await db.select().from(artists).where(eq(artists.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getArtistWithStats(id: string, currentUserId?: string): Promise<ArtistWithStats | undefined> {
+    const artist = await this.getArtist(id);
+    if (!artist) return undefined;
+
+    const [ratings] = await db
+      .select({
+        overall: avg(reviews.overallRating),
+        performance: avg(reviews.performanceRating),
+        sound: avg(reviews.soundRating),
+        venue: avg(reviews.venueRating),
+        value: avg(reviews.valueRating),
+        reviewCount: count(reviews.id),
+      })
+      .from(reviews)
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(eq(concerts.artistId, id), concertNotDeleted, reviewNotHidden));
+
+    const isFollowing = currentUserId ? await this.isFollowingArtist(currentUserId, id) : false;
+
+    return {
+      ...artist,
+      averageRatings: ratings?.overall ? {
+        overall: Number(ratings.overall),
+        performance: Number(ratings.performance),
+        sound: Number(ratings.sound),
+        venue: Number(ratings.venue),
+        value: Number(ratings.value),
+      } : undefined,
+      reviewCount: Number(ratings?.reviewCount || 0),
+      isFollowing,
+    };
+  }
+
+  async findOrCreateArtist(artist: InsertArtist): Promise<Artist> {
+    const name = artist.name.trim();
+    const existing = await db
+      .select()
+      .from(artists)
+      .where(sql`lower(${artists.name}) = lower(${name})`)
+      .limit(1);
+
+    if (existing[0]) {
+      // Fill in details we learn later (e.g. a Ticketmaster image) without overwriting curated data
+      const fillIn: Partial<InsertArtist> = {};
+      if (!existing[0].imageUrl && artist.imageUrl) fillIn.imageUrl = artist.imageUrl;
+      if (!existing[0].genres?.length && artist.genres?.length) fillIn.genres = artist.genres;
+      if (Object.keys(fillIn).length === 0) return existing[0];
+
+      const [updated] = await db
+        .update(artists)
+        .set({ ...fillIn, updatedAt: new Date() })
+        .where(eq(artists.id, existing[0].id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(artists).values({ ...artist, name }).returning();
+    return created;
+  }
+
+  async getTopReviewsForArtist(artistId: string, currentUserId?: string, limit = 5): Promise<ReviewWithUser[]> {
+    const result = await db
+      .select({
+        review: reviews,
+        user: {
+          id: users.id,
+          username: users.username,
+          profileImageUrl: users.profileImageUrl,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          bio: users.bio,
+          location: users.location,
+          isVerified: users.isVerified,
+          isPrivate: users.isPrivate,
+          favoriteGenres: users.favoriteGenres,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        },
+        concert: concerts,
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(eq(concerts.artistId, artistId), this.reviewAuthorVisibleTo(currentUserId)))
+      .orderBy(desc(reviews.likes), desc(reviews.overallRating), desc(reviews.createdAt))
+      .limit(limit);
+
+    return this.withReviewEngagement(result, currentUserId);
+  }
+
+  async followArtist(follow: InsertArtistFollow): Promise<ArtistFollow> {
+    const result = await db
+      .insert(artistFollows)
+      .values(follow)
+      .onConflictDoNothing()
+      .returning();
+    await this.refreshArtistCounts(follow.artistId);
+
+    if (result[0]) return result[0];
+    const [existing] = await db
+      .select()
+      .from(artistFollows)
+      .where(
+        and(
+          eq(artistFollows.userId, follow.userId),
+          eq(artistFollows.artistId, follow.artistId)
+        )
+      )
+      .limit(1);
+    return existing;
+  }
+
+  async unfollowArtist(userId: string, artistId: string): Promise<boolean> {
+    const result = await db
+      .delete(artistFollows)
+      .where(
+        and(
+          eq(artistFollows.userId, userId),
+          eq(artistFollows.artistId, artistId)
+        )
+      )
+      .returning();
+    await this.refreshArtistCounts(artistId);
+    return result.length > 0;
+  }
+
+  async isFollowingArtist(userId: string, artistId: string): Promise<boolean> {
+    const result = await db
+      .select()
+      .from(artistFollows)
+      .where(
+        and(
+          eq(artistFollows.userId, userId),
+          eq(artistFollows.artistId, artistId)
+        )
+      )
+      .limit(1);
     return result.length > 0;
   }
 
-  async getFollowers(userId: string): Promise<PublicUser[]> {
-    const result = await db
-      .select({ 
+  // Recount rather than increment so the cached counters self-heal
+  private async refreshArtistCounts(artistId: string): Promise<void> {
+    await db
+      .update(artists)
+      .set({
+        concertCount: sql`(SELECT count(*) FROM ${concerts} WHERE ${concerts.artistId} = ${artistId} AND ${concertNotDeleted})`,
+        followerCount: sql`(SELECT count(*) FROM ${artistFollows} WHERE ${artistFollows.artistId} = ${artistId})`,
+        updatedAt: new Date(),
+      })
+      .where(eq(artists.id, artistId));
+  }
+
+  // Attach like/comment counts and the viewer's like state to joined review rows
+  private async withReviewEngagement(
+    rows: Array<{ review: Review; user: PublicUser; concert: Concert }>,
+    currentUserId?: string,
+  ): Promise<ReviewWithUser[]> {
+    if (rows.length === 0) return [];
+
+    const reviewIds = rows.map(row => row.review.id);
+
+    const [likes, likesCounts, commentsCounts] = await Promise.all([
+      currentUserId
+        ? db
+            .select({ reviewId: reviewLikes.reviewId })
+            .from(reviewLikes)
+            .where(
+              and(
+                eq(reviewLikes.userId, currentUserId),
+                inArray(reviewLikes.reviewId, reviewIds)
+              )
+            )
+        : Promise.resolve([]),
+      db
+        .select({ reviewId: reviewLikes.reviewId, count: count() })
+        .from(reviewLikes)
+        .where(inArray(reviewLikes.reviewId, reviewIds))
+        .groupBy(reviewLikes.reviewId),
+      db
+        .select({ reviewId: reviewComments.reviewId, count: count() })
+        .from(reviewComments)
+        .where(and(inArray(reviewComments.reviewId, reviewIds), commentNotHidden))
+        .groupBy(reviewComments.reviewId),
+    ]);
+
+    const likedReviewIds = new Set(likes.map(like => like.reviewId));
+    const likesCountMap = new Map(likesCounts.map(item => [item.reviewId, Number(item.count)]));
+    const commentsCountMap = new Map(commentsCounts.map(item => [item.reviewId, Number(item.count)]));
+
+    return rows.map(row => ({
+      ...row.review,
+      user: row.user,
+      concert: row.concert,
+      isLiked: likedReviewIds.has(row.review.id),
+      likesCount: likesCountMap.get(row.review.id) || 0,
+      commentsCount: commentsCountMap.get(row.review.id) || 0,
+    }));
+  }
+
+  // Venues
+  async getVenue(id: string): Promise<Venue | undefined> {
+    const result = await db.select().from(venues).where(eq(venues.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getVenueWithStats(id: string): Promise<VenueWithStats | undefined> {
+    const venue = await this.getVenue(id);
+    if (!venue) return undefined;
+
+    const [ratings] = await db
+      .select({
+        overall: avg(reviews.overallRating),
+        performance: avg(reviews.performanceRating),
+        sound: avg(reviews.soundRating),
+        venue: avg(reviews.venueRating),
+        value: avg(reviews.valueRating),
+      })
+      .from(reviews)
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(eq(concerts.venueId, id), concertNotDeleted, reviewNotHidden));
+
+    return {
+      ...venue,
+      averageRatings: ratings?.overall ? {
+        overall: Number(ratings.overall),
+        performance: Number(ratings.performance),
+        sound: Number(ratings.sound),
+        venue: Number(ratings.venue),
+        value: Number(ratings.value),
+      } : undefined,
+    };
+  }
+
+  async searchVenues(options?: { query?: string; city?: string; limit?: number }): Promise<Venue[]> {
+    const { query, city, limit = 20 } = options || {};
+
+    const conditions = [];
+    if (query) {
+      conditions.push(ilike(venues.name, `%${query}%`));
+    }
+    if (city) {
+      conditions.push(ilike(venues.city, `%${city}%`));
+    }
+
+    return db
+      .select()
+      .from(venues)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(venues.reviewCount), venues.name)
+      .limit(limit);
+  }
+
+  async findOrCreateVenue(venue: InsertVenue): Promise<Venue> {
+    const name = venue.name.trim();
+    const city = venue.city.trim();
+    const existing = await db
+      .select()
+      .from(venues)
+      .where(
+        and(
+          sql`lower(${venues.name}) = lower(${name})`,
+          sql`lower(${venues.city}) = lower(${city})`
+        )
+      )
+      .limit(1);
+    if (existing[0]) return existing[0];
+
+    const [created] = await db.insert(venues).values({ ...venue, name, city }).returning();
+    return created;
+  }
+
+  // Concert rows carry the venue as free text plus a display city such as
+  // "Austin, TX" or "London, England, GB"; split that back into venue fields
+  private async resolveConcertVenue(
+    venueName: string,
+    cityString: string,
+    coordinates?: { latitude?: number | null; longitude?: number | null },
+  ): Promise<Venue | undefined> {
+    if (!venueName || venueName === 'TBA' || !cityString || cityString === 'TBA') return undefined;
+
+    const [city, state, country] = cityString.split(',').map(part => part.trim());
+    const latitude = coordinates?.latitude ?? null;
+    const longitude = coordinates?.longitude ?? null;
+    const venue = await this.findOrCreateVenue({
+      name: venueName,
+      city,
+      state: state || null,
+      country: country || 'US', // Ticketmaster and Setlist.fm omit the country for US cities
+      latitude,
+      longitude,
+    });
+    if (latitude === null || longitude === null || venue.latitude !== null) return venue;
+
+    // First time we've learned where this venue is; share it with its earlier shows too
+    const [located] = await db
+      .update(venues)
+      .set({ latitude, longitude, updatedAt: new Date() })
+      .where(eq(venues.id, venue.id))
+      .returning();
+    await db
+      .update(concerts)
+      .set({ latitude, longitude })
+      .where(and(eq(concerts.venueId, venue.id), sql`${concerts.latitude} IS NULL`));
+    return located;
+  }
+
+  // Rough coordinates for a free-text location like "Austin, TX", taken from
+  // the venues we know in that city. Used when the browser can't share a position.
+  async getLocationCoordinates(location: string): Promise<GeoPoint | null> {
+    const city = location.split(',')[0]?.trim();
+    if (!city) return null;
+
+    const [centre] = await db
+      .select({
+        latitude: avg(venues.latitude),
+        longitude: avg(venues.longitude),
+      })
+      .from(venues)
+      .where(and(
+        sql`lower(${venues.city}) = lower(${city})`,
+        sql`${venues.latitude} IS NOT NULL AND ${venues.longitude} IS NOT NULL`
+      ));
+    if (!centre?.latitude || !centre.longitude) return null;
+    return { latitude: Number(centre.latitude), longitude: Number(centre.longitude) };
+  }
+
+  private async refreshVenueRatingForConcert(concertId: string): Promise<void> {
+    const concert = await this.getConcert(concertId);
+    if (concert?.venueId) {
+      await this.refreshVenueRating(concert.venueId);
+    }
+  }
+
+  // Recompute from reviews so the cached rating stays consistent after edits and deletes
+  private async refreshVenueRating(venueId: string): Promise<void> {
+    const [stats] = await db
+      .select({
+        averageRating: avg(reviews.venueRating),
+        reviewCount: count(reviews.id),
+      })
+      .from(reviews)
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(eq(concerts.venueId, venueId), concertNotDeleted, reviewNotHidden));
+
+    await db
+      .update(venues)
+      .set({
+        averageRating: stats?.averageRating ? Number(stats.averageRating) : null,
+        reviewCount: Number(stats?.reviewCount || 0),
+        updatedAt: new Date(),
+      })
+      .where(eq(venues.id, venueId));
+  }
+
+  // Lineups
+  async getConcertLineup(concertId: string): Promise<ConcertActWithRating[]> {
+    const concert = await this.getConcert(concertId);
+    if (!concert) {
+      // Shows that aren't stored yet take their lineup straight from Ticketmaster
+      const { ticketmasterId } = parseExternalConcertId(concertId);
+      const event = ticketmasterId ? await this.getTicketmasterEvent(ticketmasterId) : null;
+      return (event?.lineup ?? []).map((act: ConcertActWithRating) => ({ ...act, averageRating: null, ratingCount: 0 }));
+    }
+
+    const rows = await db
+      .select({
+        act: concertActs,
+        averageRating: avg(reviewActRatings.rating),
+        ratingCount: count(reviewActRatings.id),
+      })
+      .from(concertActs)
+      .leftJoin(reviewActRatings, eq(reviewActRatings.actId, concertActs.id))
+      .where(eq(concertActs.concertId, concert.id))
+      .groupBy(concertActs.id)
+      .orderBy(sql`${concertActs.day} NULLS FIRST`, concertActs.position);
+
+    return rows.map(row => ({
+      ...row.act,
+      averageRating: row.averageRating ? Number(row.averageRating) : null,
+      ratingCount: Number(row.ratingCount),
+    }));
+  }
+
+  // Acts are matched to the stored lineup by name and day, so updating a
+  // lineup keeps the ratings of acts that are still on it
+  async setConcertLineup(concertId: string, acts: InsertConcertAct[]): Promise<ConcertAct[]> {
+    const existing = await db.select().from(concertActs).where(eq(concertActs.concertId, concertId));
+    const existingByKey = new Map(existing.map(act => [getActKey(act), act]));
+
+    const kept = new Set<string>();
+    for (let index = 0; index < acts.length; index++) {
+      const act = acts[index];
+      const values = {
+        name: act.name.trim(),
+        role: act.role ?? (index === 0 ? 'headliner' : 'support'),
+        position: act.position ?? index,
+        day: act.day ?? null,
+        setTime: act.setTime ?? null,
+      };
+
+      const match = existingByKey.get(getActKey(act));
+      if (match) {
+        kept.add(match.id);
+        await db.update(concertActs).set(values).where(eq(concertActs.id, match.id));
+      } else {
+        const artist = await this.findOrCreateArtist({ name: values.name });
+        const [created] = await db
+          .insert(concertActs)
+          .values({ ...values, concertId, artistId: artist.id })
+          .returning();
+        kept.add(created.id);
+      }
+    }
+
+    const removed = existing.filter(act => !kept.has(act.id)).map(act => act.id);
+    if (removed.length > 0) {
+      await db.delete(concertActs).where(inArray(concertActs.id, removed));
+    }
+
+    return db
+      .select()
+      .from(concertActs)
+      .where(eq(concertActs.concertId, concertId))
+      .orderBy(sql`${concertActs.day} NULLS FIRST`, concertActs.position);
+  }
+
+  async getReviewActRatings(reviewId: string): Promise<ActRating[]> {
+    return db
+      .select({
+        actName: concertActs.name,
+        day: concertActs.day,
+        rating: reviewActRatings.rating,
+      })
+      .from(reviewActRatings)
+      .innerJoin(concertActs, eq(reviewActRatings.actId, concertActs.id))
+      .where(eq(reviewActRatings.reviewId, reviewId))
+      .orderBy(sql`${concertActs.day} NULLS FIRST`, concertActs.position);
+  }
+
+  // Replaces the review's act ratings; names that aren't on the lineup are ignored
+  async setReviewActRatings(reviewId: string, concertId: string, ratings: ActRating[]): Promise<void> {
+    const acts = await db
+      .select({ id: concertActs.id, name: concertActs.name, day: concertActs.day })
+      .from(concertActs)
+      .where(eq(concertActs.concertId, concertId));
+
+    const rows = ratings.flatMap(({ actName, day, rating }) => {
+      const name = normalizeName(actName);
+      const act = acts.find(act => normalizeName(act.name) === name && (day === undefined || (act.day ?? null) === day));
+      return act ? [{ reviewId, actId: act.id, rating }] : [];
+    });
+
+    await db.delete(reviewActRatings).where(eq(reviewActRatings.reviewId, reviewId));
+    if (rows.length > 0) {
+      await db.insert(reviewActRatings).values(rows).onConflictDoNothing();
+    }
+  }
+
+  // Setlists
+  async getSetlistForConcert(concertId: string): Promise<Setlist | undefined> {
+    const concert = await this.getConcert(concertId);
+    const result = await db
+      .select()
+      .from(setlists)
+      .where(eq(setlists.concertId, concert?.id ?? concertId))
+      .orderBy(desc(setlists.updatedAt))
+      .limit(1);
+    if (result[0]) return result[0];
+
+    // Historical concerts are imported with their Setlist.fm setlist the first time they're needed
+    const setlistFmId = concert?.setlistFmId ?? parseExternalConcertId(concertId).setlistFmId;
+    if (!setlistFmId) return undefined;
+    // Importing would bring a removed concert back
+    if (!concert && await this.isConcertDeleted(concertId)) return undefined;
+    return this.importSetlistFmSetlist(setlistFmId, concert);
+  }
+
+  // Edits keep the original submitter, who can keep editing alongside the concert's editors
+  async saveUserSetlist(concertId: string, setlist: Pick<InsertSetlist, 'songs' | 'encoreSongs' | 'notes'>, submittedBy: string): Promise<Setlist> {
+    concertId = await this.resolveConcertId(concertId);
+    const [saved] = await db
+      .insert(setlists)
+      .values({ ...setlist, concertId, source: 'user_submitted', submittedBy })
+      .onConflictDoUpdate({
+        target: setlists.concertId,
+        set: { ...setlist, source: 'user_submitted', updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  private async importSetlistFmSetlist(setlistFmId: string, concert?: Concert): Promise<Setlist | undefined> {
+    const setlistFm = await setlistFmService.getSetlist(setlistFmId);
+    if (!setlistFm) return undefined;
+
+    const { songs, encoreSongs } = setlistFmService.extractSetlist(setlistFm);
+    if (songs.length === 0 && encoreSongs.length === 0) return undefined;
+
+    // The setlist row needs its concert to exist first
+    if (!concert) {
+      const event = setlistFmService.transformSetlist(setlistFm);
+      concert = await this.createConcert({
+        artist: event.artist,
+        venue: event.venue,
+        city: event.city,
+        date: event.date,
+        time: event.time,
+        price: event.price,
+        genre: event.genre,
+        imageUrl: event.imageUrl,
+        ticketUrl: event.ticketUrl,
+        description: event.description,
+      }, event.id);
+    }
+
+    // Two requests can import the same setlist at once; the first one wins
+    const [created] = await db
+      .insert(setlists)
+      .values({
+        concertId: concert.id,
+        songs,
+        encoreSongs,
+        notes: setlistFm.tour?.name ? `Tour: ${setlistFm.tour.name}` : setlistFm.info || null,
+        source: 'setlistfm',
+      })
+      .onConflictDoNothing({ target: setlists.concertId })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db.select().from(setlists).where(eq(setlists.concertId, concert.id)).limit(1);
+    return existing;
+  }
+
+  // Search
+  // Concerts and review text go through the full-text indexes; names go
+  // through trigram indexes so near-miss spellings still turn up.
+  async search(query: string, options?: { currentUserId?: string; limit?: number }): Promise<SearchResults> {
+    const { currentUserId, limit = 5 } = options || {};
+    const prefixQuery = buildPrefixTsQuery(query);
+    if (!prefixQuery) {
+      return { concerts: [], artists: [], venues: [], users: [], reviews: [] };
+    }
+
+    const simpleQuery = sql`to_tsquery('simple', ${prefixQuery})`;
+    const englishQuery = sql`to_tsquery('english', ${prefixQuery})`;
+    const pattern = `%${query}%`;
+    const headline = (config: string, document: SQL, tsQuery: SQL) =>
+      sql<string>`ts_headline(${sql.raw(`'${config}'`)}, ${document}, ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`;
+
+    const concertDocument = concertSearchDocument(concerts);
+    const concertRank = sql<number>`ts_rank(${concertDocument}, ${simpleQuery}) + similarity(${concerts.artist}, ${query})`;
+    const concertHits = db
+      .select({
+        concert: concerts,
+        rank: concertRank,
+        snippet: headline('simple', sql`${concerts.artist} || ' · ' || ${concerts.venue} || ', ' || ${concerts.city}`, simpleQuery),
+      })
+      .from(concerts)
+      .where(and(concertNotDeleted, or(sql`${concertDocument} @@ ${simpleQuery}`, sql`${concerts.artist} % ${query}`)))
+      .orderBy(desc(concertRank), desc(concerts.date))
+      .limit(limit);
+
+    const artistRank = sql<number>`similarity(${artists.name}, ${query}) + CASE WHEN ${artists.name} ILIKE ${query + '%'} THEN 1 ELSE 0 END`;
+    const artistHits = db
+      .select({
+        artist: artists,
+        rank: artistRank,
+        snippet: headline('simple', sql`${artists.name}`, simpleQuery),
+      })
+      .from(artists)
+      .where(or(ilike(artists.name, pattern), sql`${artists.name} % ${query}`))
+      .orderBy(desc(artistRank), desc(artists.followerCount))
+      .limit(limit);
+
+    const venueRank = sql<number>`similarity(${venues.name}, ${query}) + CASE WHEN ${venues.name} ILIKE ${query + '%'} THEN 1 ELSE 0 END`;
+    const venueHits = db
+      .select({
+        venue: venues,
+        rank: venueRank,
+        snippet: headline('simple', sql`${venues.name} || ', ' || ${venues.city}`, simpleQuery),
+      })
+      .from(venues)
+      .where(or(ilike(venues.name, pattern), sql`${venues.name} % ${query}`))
+      .orderBy(desc(venueRank), desc(venues.reviewCount))
+      .limit(limit);
+
+    const userName = sql`coalesce(${users.firstName}, '') || ' ' || coalesce(${users.lastName}, '') || ' @' || coalesce(${users.username}, '')`;
+    const userRank = sql<number>`greatest(
+      similarity(coalesce(${users.username}, ''), ${query}),
+      similarity(coalesce(${users.firstName}, '') || ' ' || coalesce(${users.lastName}, ''), ${query})
+    )`;
+    const userHits = db
+      .select({
         user: {
           id: users.id,
           username: users.username,
@@ -993,38 +3471,374 @@ export class PostgresStorage implements IStorage {
           favoriteGenres: users.favoriteGenres,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
-        }
+        },
+        rank: userRank,
+        snippet: headline('simple', userName, simpleQuery),
       })
-      .from(userFollows)
-      .innerJoin(users, eq(userFollows.followerId, users.id))
-      .where(eq(userFollows.followingId, userId))
-      .orderBy(desc(userFollows.createdAt));
-    return result.map(row => row.user);
-  }
+      .from(users)
+      .where(and(userNotHidden, or(
+        ilike(users.username, pattern),
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern),
+        sql`${users.username} % ${query}`,
+        sql`${users.firstName} % ${query}`,
+        sql`${users.lastName} % ${query}`
+      )))
+      .orderBy(desc(userRank))
+      .limit(limit);
 
-  async getFollowing(userId: string): Promise<PublicUser[]> {
-    const result = await db
-      .select({ 
+    const reviewDocument = reviewSearchDocument(reviews);
+    const reviewRank = sql<number>`ts_rank_cd(${reviewDocument}, ${englishQuery})`;
+    const reviewHits = db
+      .select({
+        id: reviews.id,
+        concertId: reviews.concertId,
+        overallRating: reviews.overallRating,
+        createdAt: reviews.createdAt,
         user: {
           id: users.id,
           username: users.username,
-          profileImageUrl: users.profileImageUrl,
           firstName: users.firstName,
           lastName: users.lastName,
-          bio: users.bio,
-          location: users.location,
-          isVerified: users.isVerified,
-          isPrivate: users.isPrivate,
-          favoriteGenres: users.favoriteGenres,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        }
+          profileImageUrl: users.profileImageUrl,
+        },
+        concert: {
+          id: concerts.id,
+          artist: concerts.artist,
+          venue: concerts.venue,
+          date: concerts.date,
+        },
+        rank: reviewRank,
+        snippet: headline('english', sql`${reviews.reviewText}`, englishQuery),
       })
-      .from(userFollows)
-      .innerJoin(users, eq(userFollows.followingId, users.id))
-      .where(eq(userFollows.followerId, userId))
-      .orderBy(desc(userFollows.createdAt));
-    return result.map(row => row.user);
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+      .where(and(sql`${reviewDocument} @@ ${englishQuery}`, this.reviewAuthorVisibleTo(currentUserId)))
+      .orderBy(desc(reviewRank), desc(reviews.createdAt))
+      .limit(limit);
+
+    const [concertRows, artistRows, venueRows, userRows, reviewRows] = await Promise.all([
+      concertHits, artistHits, venueHits, userHits, reviewHits,
+    ]);
+
+    return {
+      concerts: concertRows.map(row => ({ ...row.concert, rank: Number(row.rank), snippet: row.snippet })),
+      artists: artistRows.map(row => ({ ...row.artist, rank: Number(row.rank), snippet: row.snippet })),
+      venues: venueRows.map(row => ({ ...row.venue, rank: Number(row.rank), snippet: row.snippet })),
+      users: userRows.map(row => ({ ...row.user, rank: Number(row.rank), snippet: row.snippet })),
+      reviews: reviewRows.map(row => ({ ...row, rank: Number(row.rank) })),
+    };
+  }
+
+  // Recommendations
+  // Upcoming stored shows plus a few targeted Ticketmaster searches, scored
+  // against the user's taste. Shows they've already saved or reviewed are left out.
+  async getConcertRecommendations(userId: string, options?: { limit?: number }): Promise<RecommendedConcert[]> {
+    const { limit = 12 } = options || {};
+    const user = await this.getUser(userId);
+    if (!user) return [];
+
+    const signals = await this.getRecommendationSignals(user);
+    const hasTaste = signals.favoriteGenres.length > 0 || signals.ratedArtists.size > 0 ||
+      signals.followeeArtists.size > 0 || signals.wishlistArtists.size > 0;
+    if (!hasTaste) return [];
+
+    const today = new Date().toISOString().slice(0, 10);
+    const candidates = await this.getConcerts({ startDate: today, orderBy: 'date', limit: RECOMMENDATION_CANDIDATE_LIMIT });
+
+    // Seed external searches with the artists the user cares most about, then their genres
+    const seedArtists = [
+      ...Array.from(signals.ratedArtists.values())
+        .filter(artist => artist.rating >= HIGH_RATING_THRESHOLD)
+        .sort((a, b) => b.rating - a.rating)
+        .map(artist => artist.name),
+      ...Array.from(signals.followeeArtists.values())
+        .sort((a, b) => b.usernames.length - a.usernames.length)
+        .map(artist => artist.name),
+    ].filter((name, index, names) => names.indexOf(name) === index).slice(0, RECOMMENDATION_TICKETMASTER_SEARCHES);
+    const seedGenres = signals.favoriteGenres.slice(0, Math.max(0, RECOMMENDATION_TICKETMASTER_SEARCHES - seedArtists.length));
+
+    const externalResults = await Promise.all([
+      ...seedArtists.map(artist => this.searchTicketmasterEvents({ keyword: artist, size: 10 })),
+      ...seedGenres.map(genre => this.searchTicketmasterEvents({
+        classificationName: genre,
+        size: 10,
+        ...(signals.home && {
+          latlong: `${signals.home.point.latitude},${signals.home.point.longitude}`,
+          radius: DEFAULT_NEAR_RADIUS_KM * 2,
+          unit: 'km' as const,
+        }),
+      })),
+    ]);
+    const externalConcerts: ConcertWithRating[] = externalResults.flat().map(event => ({
+      ...event,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      averageRating: undefined,
+      performanceRating: undefined,
+      soundRating: undefined,
+      venueRating: undefined,
+      valueRating: undefined,
+      reviewCount: 0,
+    }));
+
+    const combined = [...candidates];
+    await this.appendExternalConcerts(combined, this.getConcertIdentityKeys(candidates), externalConcerts);
+
+    const [reviewed, wishlisted] = await Promise.all([
+      db.select({ concertId: reviews.concertId }).from(reviews).where(eq(reviews.userId, userId)),
+      db.select({ concertId: concertWishlists.concertId }).from(concertWishlists).where(eq(concertWishlists.userId, userId)),
+    ]);
+    const excluded = new Set([...reviewed, ...wishlisted].map(row => row.concertId));
+
+    const recommendations: RecommendedConcert[] = [];
+    for (const concert of combined) {
+      if (excluded.has(concert.id) || concert.date.slice(0, 10) < today) continue;
+      const scored = scoreConcert(concert, signals);
+      if (scored) recommendations.push({ ...concert, ...scored });
+    }
+
+    return recommendations
+      .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+      .slice(0, limit);
+  }
+
+  private async getRecommendationSignals(user: User): Promise<RecommendationSignals> {
+    const [ownRatings, followeeRatings, wishlistRows, home] = await Promise.all([
+      db
+        .select({ artist: concerts.artist, rating: reviews.overallRating })
+        .from(reviews)
+        .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+        .where(eq(reviews.userId, user.id)),
+      db
+        .select({ artist: concerts.artist, username: users.username })
+        .from(reviews)
+        .innerJoin(concerts, eq(reviews.concertId, concerts.id))
+        .innerJoin(users, eq(reviews.userId, users.id))
+        .innerJoin(userFollows, eq(userFollows.followingId, reviews.userId))
+        .where(and(
+          eq(userFollows.followerId, user.id),
+          eq(userFollows.status, 'accepted'),
+          sql`${reviews.overallRating} >= ${HIGH_RATING_THRESHOLD}`
+        )),
+      db
+        .select({ artist: concerts.artist })
+        .from(concertWishlists)
+        .innerJoin(concerts, eq(concertWishlists.concertId, concerts.id))
+        .where(eq(concertWishlists.userId, user.id)),
+      user.location ? this.getLocationCoordinates(user.location) : Promise.resolve(null),
+    ]);
+
+    const ratedArtists: RecommendationSignals['ratedArtists'] = new Map();
+    for (const { artist, rating } of ownRatings) {
+      const key = normalizeName(artist);
+      const existing = ratedArtists.get(key);
+      if (!existing || rating > existing.rating) ratedArtists.set(key, { name: artist, rating });
+    }
+
+    const followeeArtists: RecommendationSignals['followeeArtists'] = new Map();
+    for (const { artist, username } of followeeRatings) {
+      const key = normalizeName(artist);
+      const entry = followeeArtists.get(key) ?? { name: artist, usernames: [] };
+      const handle = username || 'someone';
+      if (!entry.usernames.includes(handle)) entry.usernames.push(handle);
+      followeeArtists.set(key, entry);
+    }
+
+    return {
+      favoriteGenres: user.favoriteGenres ?? [],
+      ratedArtists,
+      followeeArtists,
+      wishlistArtists: new Map(wishlistRows.map(({ artist }) => [normalizeName(artist), artist])),
+      home: home && user.location ? { point: home, label: user.location } : undefined,
+    };
+  }
+
+  private async resolveConcertId(concertId: string): Promise<string> {
+    const concert = await this.getConcert(concertId);
+    return concert?.id ?? concertId;
+  }
+
+  // Notification side effects must never fail the action that triggered them
+  // Unliking and liking again shouldn't notify the author a second time
+  private async hasUnreadLikeNotification(reviewId: string, likerId: string): Promise<boolean> {
+    const [existing] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        eq(notifications.type, 'like'),
+        eq(notifications.relatedReviewId, reviewId),
+        eq(notifications.relatedUserId, likerId),
+        eq(notifications.isRead, false),
+      ))
+      .limit(1);
+    return !!existing;
+  }
+
+  private async dispatchNotification(notification: InsertNotification): Promise<void> {
+    try {
+      const preference = notificationPreferenceByType[notification.type];
+      if (preference) {
+        const settings = await this.getUserSettings(notification.userId);
+        if (settings[preference] === false) return;
+      }
+      await this.createNotification(notification);
+    } catch (error) {
+      console.error('Error creating notification:', error);
+    }
+  }
+
+  private async notifyFollowersOfReview(review: Review): Promise<void> {
+    try {
+      const [author, concert, followers] = await Promise.all([
+        this.getUser(review.userId),
+        this.getConcert(review.concertId),
+        db.select({ id: userFollows.followerId })
+          .from(userFollows)
+          .where(and(eq(userFollows.followingId, review.userId), eq(userFollows.status, 'accepted'))),
+      ]);
+
+      const concertName = concert ? ` of ${concert.artist}` : '';
+      await Promise.all(followers.map(follower =>
+        this.dispatchNotification({
+          userId: follower.id,
+          type: 'review',
+          title: 'New review',
+          message: `${this.getDisplayName(author)} posted a review${concertName}`,
+          link: `/concerts/${review.concertId}`,
+          relatedUserId: review.userId,
+          relatedReviewId: review.id,
+          relatedConcertId: review.concertId,
+        })
+      ));
+    } catch (error) {
+      console.error('Error notifying followers of new review:', error);
+    }
+  }
+
+  // Followed-artist alerts
+  async getFollowedArtistsDueForScan(options: { limit: number; scannedBefore: Date }): Promise<Artist[]> {
+    return db
+      .select()
+      .from(artists)
+      .where(and(
+        sql`EXISTS (SELECT 1 FROM ${artistFollows} WHERE ${artistFollows.artistId} = ${artists.id})`,
+        or(isNull(artists.eventsScannedAt), lt(artists.eventsScannedAt, options.scannedBefore)),
+      ))
+      .orderBy(sql`${artists.eventsScannedAt} NULLS FIRST`)
+      .limit(options.limit);
+  }
+
+  // Stores the artist's current Ticketmaster events and returns the ones we
+  // hadn't seen. The first scan of an artist only records a baseline, so
+  // following someone doesn't announce their whole existing tour.
+  async recordArtistEvents(artist: Artist, events: any[]): Promise<ArtistEvent[]> {
+    const rows = events
+      .filter(event => event.ticketmasterId && /^\d{4}-\d{2}-\d{2}/.test(event.date || ''))
+      .map(event => ({
+        artistId: artist.id,
+        ticketmasterEventId: event.ticketmasterId,
+        venue: event.venue,
+        city: event.city,
+        date: event.date,
+        latitude: event.latitude ?? null,
+        longitude: event.longitude ?? null,
+        timezone: event.timezone ?? null,
+        onSaleAt: event.onSaleAt ? new Date(event.onSaleAt) : null,
+      }));
+
+    let inserted: ArtistEvent[] = [];
+    if (rows.length > 0) {
+      inserted = await db.insert(artistEvents).values(rows).onConflictDoNothing().returning();
+      // On-sale dates are often announced after the show itself
+      const known = rows.filter(row => row.onSaleAt && !inserted.some(event => event.ticketmasterEventId === row.ticketmasterEventId));
+      await Promise.all(known.map(row =>
+        db.update(artistEvents)
+          .set({ onSaleAt: row.onSaleAt })
+          .where(and(eq(artistEvents.artistId, artist.id), eq(artistEvents.ticketmasterEventId, row.ticketmasterEventId)))
+      ));
+    }
+
+    await db.update(artists).set({ eventsScannedAt: new Date() }).where(eq(artists.id, artist.id));
+    return artist.eventsScannedAt ? inserted : [];
+  }
+
+  async getArtistEventsGoingOnSale(from: Date, until: Date): Promise<ArtistEvent[]> {
+    return db
+      .select()
+      .from(artistEvents)
+      .where(and(sql`${artistEvents.onSaleAt} > ${from.toISOString()}::timestamptz`, lte(artistEvents.onSaleAt, until)));
+  }
+
+  async getArtistAlertRecipients(artistId: string): Promise<ArtistAlertRecipient[]> {
+    const rows = await db
+      .select({
+        userId: artistFollows.userId,
+        location: users.location,
+        radiusKm: userSettings.artistAlertRadiusKm,
+      })
+      .from(artistFollows)
+      .innerJoin(users, eq(artistFollows.userId, users.id))
+      .leftJoin(userSettings, eq(artistFollows.userId, userSettings.userId))
+      .where(and(
+        eq(artistFollows.artistId, artistId),
+        sql`coalesce(${userSettings.artistAlerts}, true)`,
+      ));
+    return rows.map(row => ({ userId: row.userId, location: row.location, radiusKm: row.radiusKm ?? null }));
+  }
+
+  async claimArtistEventAlert(userId: string, artistEventId: string, kind: ArtistEventAlertKind): Promise<boolean> {
+    const [claimed] = await db
+      .insert(artistEventAlerts)
+      .values({ userId, artistEventId, kind })
+      .onConflictDoNothing()
+      .returning({ id: artistEventAlerts.id });
+    return !!claimed;
+  }
+
+  // Everyone who saved or reviewed the show hears about cancellations and date changes
+  private async notifyConcertStatusChange(
+    previous: Concert,
+    concert: Concert,
+    change: NonNullable<ConcertSyncResult['change']>,
+  ): Promise<void> {
+    try {
+      const [wishlisters, reviewers] = await Promise.all([
+        db.select({ id: concertWishlists.userId }).from(concertWishlists).where(eq(concertWishlists.concertId, concert.id)),
+        db.select({ id: reviews.userId }).from(reviews).where(eq(reviews.concertId, concert.id)),
+      ]);
+      const userIds = Array.from(new Set([...wishlisters, ...reviewers].map(row => row.id)));
+
+      const show = `${concert.artist} at ${previous.venue}`;
+      const { title, message } = {
+        cancelled: { title: 'Show cancelled', message: `${show} on ${previous.date} has been cancelled` },
+        postponed: { title: 'Show postponed', message: `${show} on ${previous.date} has been postponed` },
+        rescheduled: {
+          title: 'Show rescheduled',
+          message: `${concert.artist} has moved from ${previous.date} to ${concert.date}${concert.time && concert.time !== 'TBA' ? ` at ${concert.time}` : ''}, ${concert.venue}`,
+        },
+      }[change];
+
+      await Promise.all(userIds.map(userId =>
+        this.dispatchNotification({
+          userId,
+          type: 'concert_update',
+          title,
+          message,
+          link: `/concerts/${concert.id}`,
+          relatedConcertId: concert.id,
+        })
+      ));
+    } catch (error) {
+      console.error('Error notifying users of concert status change:', error);
+    }
+  }
+
+  private getDisplayName(user?: Pick<User, 'firstName' | 'lastName' | 'username'>): string {
+    if (!user) return 'Someone';
+    if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
+    return user.firstName || user.username || 'Someone';
   }
 
   // Ticketmaster Integration
@@ -1060,6 +3874,93 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async getSetlistFmEvent(setlistId: string): Promise<any | null> {
+    try {
+      const setlist = await setlistFmService.getSetlist(setlistId);
+      if (!setlist) return null;
+      return setlistFmService.transformSetlist(setlist);
+    } catch (error) {
+      console.error('Error fetching Setlist.fm event:', error);
+      return null;
+    }
+  }
+
+  // Every id, alias and match key the listed concerts can be recognized by
+  private getConcertIdentityKeys(concertList: ConcertWithRating[]): Set<string> {
+    const keys = new Set<string>();
+    for (const concert of concertList) {
+      getConcertIdAliases(concert).forEach(alias => keys.add(alias));
+      getMatchKeyEntries(concert.matchKey ?? buildConcertMatchKey(concert), concert.time).forEach(entry => keys.add(entry));
+    }
+    return keys;
+  }
+
+  // Adds external events that aren't already listed. Events we've stored under
+  // another id are pointed at the stored concert so its reviews stay together.
+  private async appendExternalConcerts(
+    combined: ConcertWithRating[],
+    seen: Set<string>,
+    external: ConcertWithRating[],
+  ): Promise<void> {
+    if (external.length === 0) return;
+
+    const matchKeys = external.map(concert => buildConcertMatchKey(concert));
+    const canonicalIdByKey = await this.getCanonicalConcertIds(external, matchKeys);
+
+    external.forEach((concert, index) => {
+      const probes = getMatchKeyProbes(matchKeys[index], concert.time);
+      if (seen.has(concert.id) || probes.some(probe => seen.has(probe))) return;
+
+      const canonicalKey = [concert.id, ...probes].find(key => canonicalIdByKey.has(key));
+      const canonicalId = canonicalKey && canonicalIdByKey.get(canonicalKey);
+      if (canonicalId && seen.has(canonicalId)) return;
+
+      combined.push(canonicalId ? { ...concert, id: canonicalId } : concert);
+      seen.add(concert.id);
+      getMatchKeyEntries(matchKeys[index], concert.time).forEach(entry => seen.add(entry));
+      if (canonicalId) seen.add(canonicalId);
+    });
+  }
+
+  // Maps the aliases and match keys of external events we've already stored to the stored concert id
+  private async getCanonicalConcertIds(
+    external: ConcertWithRating[],
+    matchKeys: string[],
+  ): Promise<Map<string, string>> {
+    const canonicalIdByKey = new Map<string, string>();
+    if (external.length === 0) return canonicalIdByKey;
+
+    const externalIds = external.map(concert => parseExternalConcertId(concert.id));
+    const ticketmasterIds = externalIds.flatMap(ids => ids.ticketmasterId ? [ids.ticketmasterId] : []);
+    const setlistFmIds = externalIds.flatMap(ids => ids.setlistFmId ? [ids.setlistFmId] : []);
+
+    const stored = await db
+      .select({
+        id: concerts.id,
+        ticketmasterId: concerts.ticketmasterId,
+        setlistFmId: concerts.setlistFmId,
+        matchKey: concerts.matchKey,
+        time: concerts.time,
+      })
+      .from(concerts)
+      .where(and(
+        concertNotDeleted,
+        or(
+          inArray(concerts.matchKey, matchKeys),
+          ...(ticketmasterIds.length > 0 ? [inArray(concerts.ticketmasterId, ticketmasterIds)] : []),
+          ...(setlistFmIds.length > 0 ? [inArray(concerts.setlistFmId, setlistFmIds)] : [])
+        )
+      ));
+
+    for (const concert of stored) {
+      getConcertIdAliases(concert).forEach(alias => canonicalIdByKey.set(alias, concert.id));
+      if (concert.matchKey) {
+        getMatchKeyEntries(concert.matchKey, concert.time).forEach(entry => canonicalIdByKey.set(entry, concert.id));
+      }
+    }
+    return canonicalIdByKey;
+  }
+
   async getConcertsWithTicketmaster(options: {
     search?: string;
     genre?: string;
@@ -1106,13 +4007,8 @@ export class PostgresStorage implements IStorage {
 
       // Combine and deduplicate (prioritize DB concerts)
       const combinedConcerts = [...dbConcerts];
-      const dbConcertIds = new Set(dbConcerts.map(c => c.id));
-      
-      for (const tmConcert of tmConcerts) {
-        if (!dbConcertIds.has(tmConcert.id)) {
-          combinedConcerts.push(tmConcert);
-        }
-      }
+      const seenConcerts = this.getConcertIdentityKeys(dbConcerts);
+      await this.appendExternalConcerts(combinedConcerts, seenConcerts, tmConcerts);
 
       // Apply search filtering to combined results
       let filteredConcerts = combinedConcerts;
@@ -1145,72 +4041,166 @@ export class PostgresStorage implements IStorage {
     }
   }
 
-  async getConcertsWithHistorical(options: {
-    search?: string;
-    genre?: string;
-    city?: string;
-    limit?: number;
-    offset?: number;
-    includeTicketmaster?: boolean;
-    includeHistorical?: boolean;
-    startDate?: string;
-    endDate?: string;
-  } = {}): Promise<ConcertWithRating[]> {
-    try {
-      // Get database concerts first
-      const dbConcerts = await this.getConcerts(options);
-      
-      let combinedConcerts = [...dbConcerts];
-      const allConcertIds = new Set(dbConcerts.map(c => c.id));
-
-      // Add Ticketmaster events if requested
-      if (options.includeTicketmaster) {
-        const tmOptions: TicketmasterSearchOptions = {
-          size: options.limit || 20,
-          page: Math.floor((options.offset || 0) / (options.limit || 20)),
-        };
+  /**
+   * One page of concerts merged from the database, Ticketmaster and Setlist.fm.
+   *
+   * Each source is read in the same order (upcoming soonest first, then past
+   * most recent first) and merged, so paging never repeats or skips a show.
+   * The cursor records how far into each source the previous page got.
+   */
+  async searchConcerts(options: ConcertSearchOptions = {}): Promise<ConcertSearchPage> {
+    const { limit = 20, includeTicketmaster = false, includeHistorical = false } = options;
+    const cursor = decodeSearchCursor(options.cursor) ?? {
+      db: 0,
+      tm: includeTicketmaster ? { page: 0, index: 0 } : null,
+      // Setlist.fm pages start at 1. It can't search by distance, so it sits out "near" searches.
+      sfm: includeHistorical && !options.near ? { page: 1, index: 0 } : null,
+    };
+    const today = new Date().toISOString().slice(0, 10);
+    const seen = new Set<string>();
 
+    const sources: ConcertSearchSource[] = [];
+    if (cursor.db !== null) {
+      const offset = cursor.db;
+      sources.push({
+        name: 'db',
+        buffer: [],
+        position: offset,
+        exhausted: false,
+        fetches: 0,
+        fetchNext: async (source) => {
+          // One extra row tells us whether the database has more without another query
+          const rows = await this.getConcerts({
+            ...options,
+            orderBy: options.near ? 'distance' : 'date',
+            limit: limit + 1,
+            offset: source.position,
+          });
+          source.exhausted = rows.length <= limit;
+          rows.forEach(concert => getConcertIdAliases(concert).forEach(alias => seen.add(alias)));
+          return rows.slice(0, limit);
+        },
+      });
+    }
+    if (cursor.tm) {
+      sources.push(this.createExternalSearchSource('tm', cursor.tm, TICKETMASTER_SEARCH_PAGE_SIZE, async (page) => {
+        const tmOptions: TicketmasterSearchOptions = { size: TICKETMASTER_SEARCH_PAGE_SIZE, page, sort: 'date,asc' };
+        if (options.near) {
+          tmOptions.latlong = `${options.near.latitude},${options.near.longitude}`;
+          tmOptions.radius = Math.ceil(options.radiusKm ?? DEFAULT_NEAR_RADIUS_KM);
+          tmOptions.unit = 'km';
+          tmOptions.sort = 'distance,asc';
+        }
         if (options.search) tmOptions.keyword = options.search;
         if (options.city) tmOptions.city = options.city;
         if (options.genre) tmOptions.classificationName = options.genre;
         if (options.startDate) tmOptions.startDateTime = options.startDate + 'T00:00:00Z';
         if (options.endDate) tmOptions.endDateTime = options.endDate + 'T23:59:59Z';
+        return this.searchTicketmasterEvents(tmOptions);
+      }));
+    }
+    if (cursor.sfm) {
+      sources.push(this.createExternalSearchSource('sfm', cursor.sfm, SETLIST_FM_SEARCH_PAGE_SIZE, async (page) => {
+        const sfmOptions: SetlistFmSearchOptions = { p: page };
+        if (options.search) sfmOptions.artistName = options.search;
+        if (options.city) sfmOptions.cityName = options.city;
+        return this.searchSetlistFmEvents(sfmOptions);
+      }));
+    }
 
-        const tmEvents = await this.searchTicketmasterEvents(tmOptions);
-        
-        const tmConcerts: ConcertWithRating[] = tmEvents.map(event => ({
-          ...event,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          averageRating: undefined,
-          performanceRating: undefined,
-          soundRating: undefined,
-          venueRating: undefined,
-          valueRating: undefined,
-          reviewCount: 0,
-        }));
-
-        // Add Ticketmaster concerts that aren't already in the database
-        for (const tmConcert of tmConcerts) {
-          if (!allConcertIds.has(tmConcert.id)) {
-            combinedConcerts.push(tmConcert);
-            allConcertIds.add(tmConcert.id);
+    const concertsPage: ConcertWithRating[] = [];
+    while (concertsPage.length < limit) {
+      // A source with nothing buffered could still hold the next show, so refill before comparing
+      let stalled = false;
+      for (const source of sources) {
+        while (source.buffer.length === 0 && !source.exhausted) {
+          if (source.fetches >= MAX_SEARCH_FETCHES_PER_SOURCE) {
+            stalled = true;
+            break;
           }
+          source.fetches++;
+          const fetched = await source.fetchNext(source);
+          source.buffer.push(...await this.filterSearchResults(source, fetched, options, seen));
+        }
+      }
+      if (stalled) break;
+
+      let next: ConcertSearchSource | undefined;
+      for (const source of sources) {
+        const head = source.buffer[0];
+        if (!head) continue;
+        if (!head.concert) {
+          // Filtered out or already listed; skip it but keep its place in the source
+          source.buffer.shift();
+          source.position = head.position;
+          next = undefined;
+          break;
+        }
+        if (!next || compareConcertsForSearch(head.concert, next.buffer[0].concert!, today, options) < 0) {
+          next = source;
         }
       }
+      if (!next) {
+        if (sources.every(source => source.buffer.length === 0 && source.exhausted)) break;
+        continue;
+      }
 
-      // Add Setlist.fm historical events if requested
-      if (options.includeHistorical) {
-        const sfmOptions: SetlistFmSearchOptions = {
-          p: Math.floor((options.offset || 0) / (options.limit || 20)) + 1, // Setlist.fm pages start at 1
-        };
+      const { concert, position } = next.buffer.shift()!;
+      next.position = position;
+      const matchKey = buildConcertMatchKey(concert!);
+      if (next.name !== 'db' && getMatchKeyProbes(matchKey, concert!.time).some(probe => seen.has(probe))) continue;
+      getMatchKeyEntries(matchKey, concert!.time).forEach(entry => seen.add(entry));
+      concertsPage.push(concert!);
+    }
 
-        if (options.search) sfmOptions.artistName = options.search;
-        if (options.city) sfmOptions.cityName = options.city;
+    const nextCursor: ConcertSearchCursor = { db: null, tm: null, sfm: null };
+    for (const source of sources) {
+      if (source.buffer.length === 0 && source.exhausted) continue;
+      if (source.name === 'db') {
+        nextCursor.db = source.position;
+      } else {
+        nextCursor[source.name] = source.externalPosition!(source.position);
+      }
+    }
 
-        const sfmEvents = await this.searchSetlistFmEvents(sfmOptions);
-        
-        const sfmConcerts: ConcertWithRating[] = sfmEvents.map(event => ({
+    const hasMore = nextCursor.db !== null || nextCursor.tm !== null || nextCursor.sfm !== null;
+    return {
+      concerts: concertsPage,
+      nextCursor: hasMore ? encodeSearchCursor(nextCursor) : null,
+      hasMore,
+    };
+  }
+
+  // External providers page in fixed sizes, so their position is a page plus an index into it
+  private createExternalSearchSource(
+    name: 'tm' | 'sfm',
+    start: { page: number; index: number },
+    pageSize: number,
+    fetchPage: (page: number) => Promise<any[]>,
+  ): ConcertSearchSource {
+    const firstPage = name === 'sfm' ? 1 : 0;
+    const toPosition = ({ page, index }: { page: number; index: number }) => (page - firstPage) * pageSize + index;
+    let nextPage = start.page;
+
+    return {
+      name,
+      buffer: [],
+      position: toPosition(start),
+      exhausted: false,
+      fetches: 0,
+      externalPosition: (position) => ({
+        page: Math.floor(position / pageSize) + firstPage,
+        index: position % pageSize,
+      }),
+      fetchNext: async (source) => {
+        const page = nextPage++;
+        const events = await fetchPage(page);
+        // Ticketmaster refuses to page past its first thousand results
+        source.exhausted = events.length < pageSize ||
+          (name === 'tm' && (page + 1) * pageSize >= 1000);
+        const pageStart = toPosition({ page, index: 0 });
+        const skip = Math.max(0, source.position - pageStart);
+        return events.slice(skip).map(event => ({
           ...event,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -1221,45 +4211,60 @@ export class PostgresStorage implements IStorage {
           valueRating: undefined,
           reviewCount: 0,
         }));
+      },
+    };
+  }
 
-        // Add Setlist.fm concerts that aren't already in the combined results
-        for (const sfmConcert of sfmConcerts) {
-          if (!allConcertIds.has(sfmConcert.id)) {
-            combinedConcerts.push(sfmConcert);
-            allConcertIds.add(sfmConcert.id);
-          }
-        }
-      }
+  // Pairs each fetched concert with the source position after it; concerts that
+  // don't belong in the results stay as null entries so they're still counted
+  private async filterSearchResults(
+    source: ConcertSearchSource,
+    fetched: ConcertWithRating[],
+    options: ConcertSearchOptions,
+    seen: Set<string>,
+  ): Promise<ConcertSearchEntry[]> {
+    const basePosition = source.position + source.buffer.length;
+    if (source.name === 'db') {
+      return fetched.map((concert, index) => ({ concert, position: basePosition + index + 1 }));
+    }
 
-      // Apply search filtering to combined results
-      let filteredConcerts = combinedConcerts;
-      
-      if (options.search) {
-        const searchLower = options.search.toLowerCase();
-        filteredConcerts = combinedConcerts.filter(concert =>
-          concert.artist.toLowerCase().includes(searchLower) ||
-          concert.venue.toLowerCase().includes(searchLower) ||
-          concert.city.toLowerCase().includes(searchLower)
-        );
-      }
+    const matchKeys = fetched.map(concert => buildConcertMatchKey(concert));
+    const canonicalIdByKey = await this.getCanonicalConcertIds(fetched, matchKeys);
+    const searchLower = options.search?.toLowerCase();
+    const genreLower = options.genre?.toLowerCase();
 
-      if (options.genre) {
-        const genreLower = options.genre.toLowerCase();
-        filteredConcerts = filteredConcerts.filter(concert =>
-          concert.genre?.toLowerCase().includes(genreLower)
-        );
+    return fetched.map((concert, index) => {
+      const position = basePosition + index + 1;
+      const matchesSearch = !searchLower ||
+        concert.artist.toLowerCase().includes(searchLower) ||
+        concert.venue.toLowerCase().includes(searchLower) ||
+        concert.city.toLowerCase().includes(searchLower);
+      const matchesGenre = !genreLower || concert.genre?.toLowerCase().includes(genreLower);
+      const day = concert.date.slice(0, 10);
+      const inRange = (!options.startDate || day >= options.startDate) && (!options.endDate || day <= options.endDate);
+      const { priceMin, priceMax } = deriveConcertFields(concert);
+      const inPriceRange = (options.minPrice === undefined && options.maxPrice === undefined) || (
+        priceMin !== null &&
+        (options.minPrice === undefined || (priceMax ?? priceMin) >= options.minPrice) &&
+        (options.maxPrice === undefined || priceMin <= options.maxPrice)
+      );
+      // Stored concerts come through the database source instead
+      const stored = canonicalIdByKey.has(concert.id) ||
+        getMatchKeyProbes(matchKeys[index], concert.time).some(probe => canonicalIdByKey.has(probe)) ||
+        seen.has(concert.id);
+
+      let inRadius = true;
+      if (options.near) {
+        const hasCoordinates = concert.latitude != null && concert.longitude != null;
+        concert.distanceKm = hasCoordinates
+          ? haversineKm(options.near, { latitude: concert.latitude!, longitude: concert.longitude! })
+          : undefined;
+        inRadius = concert.distanceKm !== undefined && concert.distanceKm <= (options.radiusKm ?? DEFAULT_NEAR_RADIUS_KM);
       }
 
-      // Apply pagination
-      const startIndex = options.offset || 0;
-      const endIndex = startIndex + (options.limit || 50);
-      
-      return filteredConcerts.slice(startIndex, endIndex);
-    } catch (error) {
-      console.error('Error getting concerts with historical data:', error);
-      // Fallback to database-only concerts
-      return this.getConcerts(options);
-    }
+      const included = matchesSearch && matchesGenre && inRange && inPriceRange && inRadius && !stored;
+      return { concert: included ? concert : null, position };
+    });
   }
 }
 
@@ -2,6 +2,9 @@
  * Ticketmaster Discovery API service for fetching real-time concert data
  */
 
+import { ExternalApiClient } from "./apiCache";
+import type { ConcertStatus } from "@shared/schema";
+
 interface TicketmasterEvent {
   id: string;
   name: string;
@@ -33,6 +36,9 @@ interface TicketmasterEvent {
       timeTBA: boolean;
       noSpecificTime: boolean;
     };
+    end?: {
+      localDate?: string;
+    };
     timezone: string;
     status: {
       code: string;
@@ -140,6 +146,7 @@ export interface TicketmasterSearchOptions {
   sort?: string;
   startDateTime?: string;
   endDateTime?: string;
+  latlong?: string; // "lat,lon" centre for radius searches
   radius?: number;
   unit?: 'miles' | 'km';
 }
@@ -148,6 +155,13 @@ export class TicketmasterService {
   private readonly baseUrl = 'https://app.ticketmaster.com/discovery/v2';
   private readonly consumerKey: string;
 
+  // Listings and prices move, so keep the TTL short
+  private readonly api = new ExternalApiClient({
+    provider: 'ticketmaster',
+    ttlMs: (Number(process.env.TICKETMASTER_CACHE_TTL_SECONDS) || 300) * 1000,
+    secretParams: ['apikey'],
+  });
+
   constructor() {
     this.consumerKey = process.env.TICKETMASTER_CONSUMER_KEY || '';
   }
@@ -179,19 +193,20 @@ export class TicketmasterService {
       if (options.classificationName) params.append('classificationName', options.classificationName);
       if (options.startDateTime) params.append('startDateTime', options.startDateTime);
       if (options.endDateTime) params.append('endDateTime', options.endDateTime);
+      if (options.latlong) params.append('latlong', options.latlong);
       if (options.radius) params.append('radius', String(options.radius));
       if (options.unit) params.append('unit', options.unit);
 
       const url = `${this.baseUrl}/events.json?${params.toString()}`;
       console.log('Fetching from Ticketmaster:', url.replace(this.consumerKey, '[API_KEY]'));
 
-      const response = await fetch(url);
+      const response = await this.api.getJson(url);
       
-      if (!response.ok) {
-        throw new Error(`Ticketmaster API error: ${response.status} ${response.statusText}`);
+      if (response.status >= 300) {
+        throw new Error(`Ticketmaster API error: ${response.status}`);
       }
 
-      const data: TicketmasterResponse = await response.json();
+      const data: TicketmasterResponse = response.data;
       return data._embedded?.events || [];
     } catch (error) {
       console.error('Error fetching from Ticketmaster API:', error);
@@ -209,16 +224,16 @@ export class TicketmasterService {
       });
 
       const url = `${this.baseUrl}/events/${eventId}.json?${params.toString()}`;
-      const response = await fetch(url);
+      const response = await this.api.getJson(url);
       
-      if (!response.ok) {
+      if (response.status >= 300) {
         if (response.status === 404) {
           return null;
         }
-        throw new Error(`Ticketmaster API error: ${response.status} ${response.statusText}`);
+        throw new Error(`Ticketmaster API error: ${response.status}`);
       }
 
-      return await response.json();
+      return response.data;
     } catch (error) {
       console.error('Error fetching event from Ticketmaster API:', error);
       throw error;
@@ -249,27 +264,71 @@ export class TicketmasterService {
 
     const imageUrl = getBestImage(event.images) || getBestImage(attraction?.images);
 
+    // Attractions are listed in billing order, headliner first
+    const lineup = (event._embedded?.attractions || []).map((act, index) => ({
+      name: act.name,
+      role: index === 0 ? 'headliner' : 'support',
+      position: index,
+      day: null,
+      setTime: null,
+    }));
+    const endDate = event.dates.end?.localDate && event.dates.end.localDate !== event.dates.start.localDate
+      ? event.dates.end.localDate
+      : null;
+    const isFestival = !!endDate || /\bfest(ival)?\b/i.test(event.name);
+
     return {
       // Use Ticketmaster ID with a prefix to avoid conflicts
       id: `tm_${event.id}`,
-      artist: attraction?.name || event.name,
+      // Festivals go by their own name; the acts are in the lineup
+      artist: isFestival ? event.name : attraction?.name || event.name,
       venue: venue?.name || 'TBA',
       city: venue ? `${venue.city.name}, ${venue.state?.stateCode || venue.country.countryCode}` : 'TBA',
       date: event.dates.start.localDate,
+      endDate,
       time: event.dates.start.localTime || 'TBA',
-      price: priceRange ? `$${priceRange.min}-$${priceRange.max}` : 'TBA',
+      price: priceRange
+        ? priceRange.currency === 'USD'
+          ? `$${priceRange.min}-$${priceRange.max}`
+          : `${priceRange.min}-${priceRange.max} ${priceRange.currency}`
+        : 'TBA',
       genre: classification?.genre?.name || classification?.subGenre?.name || 'Music',
       imageUrl,
       ticketUrl: event.url,
       description: `${attraction?.name || event.name} at ${venue?.name || 'TBA'}${venue?.city ? ` in ${venue.city.name}` : ''}`,
       // Additional metadata
       ticketmasterId: event.id,
-      venueId: venue?.id,
+      ticketmasterVenueId: venue?.id,
+      latitude: venue?.location ? Number(venue.location.latitude) : null,
+      longitude: venue?.location ? Number(venue.location.longitude) : null,
       attractionId: attraction?.id,
       eventStatus: event.dates.status.code,
+      status: toConcertStatus(event.dates.status?.code),
+      lineup,
+      isFestival,
+      onSaleAt: event.sales?.public?.startTBD || event.sales?.public?.startTBA ? null : event.sales?.public?.startDateTime || null,
       timezone: event.dates.timezone,
+      startsAt: event.dates.start.dateTime || null,
+      priceMin: priceRange?.min ?? null,
+      priceMax: priceRange?.max ?? null,
+      currency: priceRange?.currency ?? null,
     };
   }
 }
 
+/**
+ * Map Ticketmaster's dates.status.code onto our concert status. On-sale and
+ * off-sale shows are both simply going ahead.
+ */
+export function toConcertStatus(code: string | undefined): ConcertStatus {
+  switch (code) {
+    case 'cancelled':
+    case 'postponed':
+    case 'rescheduled':
+      return code;
+    default:
+      return 'scheduled';
+  }
+}
+
 export const ticketmasterService = new TicketmasterService();
\ No newline at end of file
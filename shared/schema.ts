@@ -1,8 +1,17 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, real, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, real, doublePrecision, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Full-text search documents. The GIN indexes below are built on these exact
+// expressions, so queries must use the same helpers for the index to apply.
+// Trigram indexes (gin_trgm_ops) need the pg_trgm extension.
+export const concertSearchDocument = (table: { artist: AnyPgColumn; venue: AnyPgColumn; city: AnyPgColumn }) =>
+  sql`to_tsvector('simple', ${table.artist} || ' ' || ${table.venue} || ' ' || ${table.city})`;
+
+export const reviewSearchDocument = (table: { reviewText: AnyPgColumn }) =>
+  sql`to_tsvector('english', ${table.reviewText})`;
+
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
   "sessions",
@@ -28,26 +37,61 @@ export const users = pgTable("users", {
   isVerified: boolean("is_verified").default(false),
   isPrivate: boolean("is_private").default(false),
   favoriteGenres: text("favorite_genres").array().default(sql`'{}'::text[]`),
+  role: varchar("role", { length: 20 }).notNull().default("user"), // 'user', 'moderator', 'admin'
+  hiddenAt: timestamp("hidden_at"), // Profile hidden by moderation
+  suspendedAt: timestamp("suspended_at"), // Suspended accounts can't post
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("users_username_trgm_idx").using("gin", table.username.op("gin_trgm_ops")),
+  index("users_first_name_trgm_idx").using("gin", table.firstName.op("gin_trgm_ops")),
+  index("users_last_name_trgm_idx").using("gin", table.lastName.op("gin_trgm_ops")),
+]);
 
 // Concerts table
 export const concerts = pgTable("concerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   artist: text("artist").notNull(),
+  artistId: varchar("artist_id").references(() => artists.id, { onDelete: "set null" }),
   venue: text("venue").notNull(),
+  venueId: varchar("venue_id").references(() => venues.id, { onDelete: "set null" }),
   city: text("city").notNull(),
   date: text("date").notNull(), // Store as ISO string for simplicity
+  endDate: text("end_date"), // Last day of multi-day festivals
   time: text("time").notNull(),
   price: text("price").notNull(),
+  // Typed versions of date/time/price for filtering, see server/concertFields.ts
+  startsAt: timestamp("starts_at", { withTimezone: true }),
+  timezone: text("timezone"), // IANA zone of the venue, e.g. America/New_York
+  priceMin: doublePrecision("price_min"),
+  priceMax: doublePrecision("price_max"),
+  currency: varchar("currency", { length: 3 }),
+  fieldsParsedAt: timestamp("fields_parsed_at"), // When the typed fields were last derived, even if nothing parsed
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   genre: text("genre"),
   imageUrl: text("image_url"),
   ticketUrl: text("ticket_url"),
   description: text("description"),
+  isFestival: boolean("is_festival").default(false),
+  status: varchar("status", { length: 20 }).default("scheduled"), // 'scheduled', 'cancelled', 'postponed', 'rescheduled'
+  statusCheckedAt: timestamp("status_checked_at"), // Last Ticketmaster sync, see server/concertSync.ts
+  // External aliases - the same show from Ticketmaster and Setlist.fm maps to one row
+  ticketmasterId: varchar("ticketmaster_id").unique(),
+  setlistFmId: varchar("setlist_fm_id").unique(),
+  matchKey: text("match_key"), // normalized artist|venue|city|date, see server/concertMatching.ts
+  createdBy: varchar("created_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }), // null for imported shows
+  // Soft delete keeps the reviews of removed concerts
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("concerts_match_key_idx").on(table.matchKey),
+  index("concerts_starts_at_idx").on(table.startsAt),
+  index("concerts_search_idx").using("gin", concertSearchDocument(table)),
+  index("concerts_artist_trgm_idx").using("gin", table.artist.op("gin_trgm_ops")),
+]);
 
 // Reviews table
 export const reviews = pgTable("reviews", {
@@ -62,17 +106,59 @@ export const reviews = pgTable("reviews", {
   reviewText: text("review_text").notNull(),
   photos: text("photos").array().default(sql`'{}'::text[]`),
   likes: integer("likes").default(0),
+  hiddenAt: timestamp("hidden_at"), // Hidden by moderation, see reports
+  editedAt: timestamp("edited_at"), // Last change to the ratings or text, see review_revisions
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
-  uniqueUserConcert: sql`UNIQUE (${table.userId}, ${table.concertId})`,
+  uniqueUserConcert: uniqueIndex("reviews_user_concert_idx").on(table.userId, table.concertId),
+  reviewTextSearchIdx: index("reviews_text_search_idx").using("gin", reviewSearchDocument(table)),
 }));
 
+// Earlier versions of a review. Each edit saves the ratings and text it
+// replaced; createdAt is when that version was replaced.
+export const reviewRevisions = pgTable("review_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reviewId: varchar("review_id").references(() => reviews.id, { onDelete: "cascade" }).notNull(),
+  overallRating: integer("overall_rating").notNull(),
+  performanceRating: integer("performance_rating").notNull(),
+  soundRating: integer("sound_rating").notNull(),
+  venueRating: integer("venue_rating").notNull(),
+  valueRating: integer("value_rating").notNull(),
+  reviewText: text("review_text").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("review_revisions_review_id_idx").on(table.reviewId),
+]);
+
+// Unpublished reviews, one per user and concert, autosaved by the review
+// dialog. The concert may not be stored yet (e.g. a Setlist.fm show), so the
+// draft keeps the selected concert as it was when the draft was started.
+export const reviewDrafts = pgTable("review_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  concertId: varchar("concert_id").notNull(), // Stored or external id, see server/concertMatching.ts
+  concert: jsonb("concert").$type<ReviewDraftConcert>().notNull(),
+  overallRating: integer("overall_rating").notNull().default(5),
+  performanceRating: integer("performance_rating").notNull().default(5),
+  soundRating: integer("sound_rating").notNull().default(5),
+  venueRating: integer("venue_rating").notNull().default(5),
+  valueRating: integer("value_rating").notNull().default(5),
+  reviewText: text("review_text").notNull().default(""),
+  photos: text("photos").array().notNull().default(sql`'{}'::text[]`),
+  actRatings: jsonb("act_ratings").$type<ActRating[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("review_drafts_user_concert_idx").on(table.userId, table.concertId),
+]);
+
 // User follows table (for social features)
 export const userFollows = pgTable("user_follows", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   followerId: varchar("follower_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   followingId: varchar("following_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("accepted"), // 'pending' until a private account approves
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   uniqueUserFollow: sql`UNIQUE (${table.followerId}, ${table.followingId})`,
@@ -104,6 +190,7 @@ export const reviewComments = pgTable("review_comments", {
   reviewId: varchar("review_id").references(() => reviews.id, { onDelete: "cascade" }).notNull(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   commentText: text("comment_text").notNull(),
+  hiddenAt: timestamp("hidden_at"), // Hidden by moderation, see reports
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -139,10 +226,12 @@ export const artists = pgTable("artists", {
   isVerified: boolean("is_verified").default(false),
   followerCount: integer("follower_count").default(0),
   concertCount: integer("concert_count").default(0),
+  eventsScannedAt: timestamp("events_scanned_at"), // Last Ticketmaster scan for new shows, see server/artistAlerts.ts
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("artists_name_idx").on(table.name),
+  index("artists_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
 ]);
 
 // Venues table  
@@ -153,6 +242,8 @@ export const venues = pgTable("venues", {
   state: text("state"),
   country: text("country").notNull(),
   address: text("address"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   capacity: integer("capacity"),
   type: varchar("type", { length: 50 }), // 'arena', 'theater', 'club', 'stadium', 'festival', 'outdoor'
   amenities: text("amenities").array().default(sql`'{}'::text[]`), // ['parking', 'food', 'bar', 'accessible']
@@ -165,6 +256,7 @@ export const venues = pgTable("venues", {
 }, (table) => [
   index("venues_city_idx").on(table.city),
   index("venues_name_idx").on(table.name),
+  index("venues_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
 ]);
 
 // User settings table
@@ -178,12 +270,96 @@ export const userSettings = pgTable("user_settings", {
   newCommentNotif: boolean("new_comment_notif").default(true),
   newLikeNotif: boolean("new_like_notif").default(true),
   upcomingConcertReminders: boolean("upcoming_concert_reminders").default(true),
+  reminderDaysBefore: integer("reminder_days_before").default(3), // Advance reminder, on top of the day-of one
+  artistAlerts: boolean("artist_alerts").default(true), // New shows and on-sales from followed artists
+  artistAlertRadiusKm: integer("artist_alert_radius_km"), // Around the profile location; null means anywhere
   theme: varchar("theme", { length: 20 }).default("system"), // 'light', 'dark', 'system'
   language: varchar("language", { length: 10 }).default("en"),
+  calendarToken: varchar("calendar_token").unique(), // Secret in the iCal feed URL, created on first use
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Concert lineups - headliner and support acts, per day for festivals
+export const concertActs = pgTable("concert_acts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  concertId: varchar("concert_id").references(() => concerts.id, { onDelete: "cascade" }).notNull(),
+  artistId: varchar("artist_id").references(() => artists.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  role: varchar("role", { length: 20 }).notNull().default("support"), // 'headliner', 'support'
+  position: integer("position").notNull().default(0), // Billing order, headliner first
+  day: text("day"), // ISO date within a festival; null for single-day shows or the whole festival
+  setTime: text("set_time"), // Local start of the set, e.g. "21:30"
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("concert_acts_concert_id_idx").on(table.concertId),
+  index("concert_acts_artist_id_idx").on(table.artistId),
+]);
+
+// Per-act ratings attached to a review of a multi-act show
+export const reviewActRatings = pgTable("review_act_ratings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reviewId: varchar("review_id").references(() => reviews.id, { onDelete: "cascade" }).notNull(),
+  actId: varchar("act_id").references(() => concertActs.id, { onDelete: "cascade" }).notNull(),
+  rating: integer("rating").notNull(), // 1-5 stars
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("review_act_ratings_review_act_idx").on(table.reviewId, table.actId),
+  index("review_act_ratings_act_id_idx").on(table.actId),
+]);
+
+// User reports of abusive reviews, comments and profiles. Each user reports
+// a given target once; enough open reports hide it until a moderator looks.
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reporterId: varchar("reporter_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  targetType: varchar("target_type", { length: 20 }).notNull(), // 'review', 'comment', 'user'
+  targetId: varchar("target_id").notNull(),
+  reason: varchar("reason", { length: 30 }).notNull(), // See reportReasons
+  details: text("details"),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // 'open', 'dismissed', 'actioned'
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reports_reporter_target_idx").on(table.reporterId, table.targetType, table.targetId),
+  index("reports_target_idx").on(table.targetType, table.targetId),
+  index("reports_status_idx").on(table.status),
+]);
+
+// Field-by-field diff of a concert edit
+export type ConcertFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Community suggestions for a concert's details. The concert's owner or a
+// moderator accepts or rejects them; accepted ones become revisions.
+export const concertEditProposals = pgTable("concert_edit_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  concertId: varchar("concert_id").references(() => concerts.id, { onDelete: "cascade" }).notNull(),
+  proposedBy: varchar("proposed_by").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  changes: jsonb("changes").$type<ConcertFieldChanges>().notNull(), // "from" is the value when proposed
+  note: text("note"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'accepted', 'rejected'
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("concert_edit_proposals_concert_id_idx").on(table.concertId),
+]);
+
+// Every change applied to a concert's details. Reverting re-applies a
+// revision's "from" values as a new revision, so history only grows.
+export const concertRevisions = pgTable("concert_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  concertId: varchar("concert_id").references(() => concerts.id, { onDelete: "cascade" }).notNull(),
+  editedBy: varchar("edited_by").references(() => users.id, { onDelete: "set null" }),
+  changes: jsonb("changes").$type<ConcertFieldChanges>().notNull(),
+  proposalId: varchar("proposal_id").references(() => concertEditProposals.id, { onDelete: "set null" }),
+  revertOf: varchar("revert_of").references((): AnyPgColumn => concertRevisions.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("concert_revisions_concert_id_idx").on(table.concertId),
+]);
+
 // Setlists table
 export const setlists = pgTable("setlists", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -192,10 +368,12 @@ export const setlists = pgTable("setlists", {
   encoreSongs: text("encore_songs").array().default(sql`'{}'::text[]`),
   notes: text("notes"),
   source: varchar("source", { length: 50 }), // 'setlistfm', 'user_submitted'
+  submittedBy: varchar("submitted_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }), // For user_submitted setlists
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
-  index("setlists_concert_id_idx").on(table.concertId),
+  // One setlist per concert
+  uniqueIndex("setlists_concert_id_idx").on(table.concertId),
 ]);
 
 // Artist follows (for following artists to get notified about their concerts)
@@ -204,13 +382,69 @@ export const artistFollows = pgTable("artist_follows", {
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   artistId: varchar("artist_id").references(() => artists.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-}, (table) => ({
-  uniqueUserArtist: sql`UNIQUE (${table.userId}, ${table.artistId})`,
-}));
+}, (table) => [
+  uniqueIndex("artist_follows_user_artist_idx").on(table.userId, table.artistId),
+]);
+
+// Ticketmaster events seen for followed artists, so each new show is announced once
+export const artistEvents = pgTable("artist_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  artistId: varchar("artist_id").references(() => artists.id, { onDelete: "cascade" }).notNull(),
+  ticketmasterEventId: varchar("ticketmaster_event_id").notNull(),
+  venue: text("venue").notNull(),
+  city: text("city").notNull(),
+  date: text("date").notNull(),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  timezone: text("timezone"),
+  onSaleAt: timestamp("on_sale_at", { withTimezone: true }), // Ticketmaster public sale start
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("artist_events_artist_event_idx").on(table.artistId, table.ticketmasterEventId),
+  index("artist_events_on_sale_at_idx").on(table.onSaleAt),
+]);
+
+// Alerts already sent to followers; the unique index keeps each to a single send
+export const artistEventAlerts = pgTable("artist_event_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  artistEventId: varchar("artist_event_id").references(() => artistEvents.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // 'announced', 'on_sale'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("artist_event_alerts_user_event_kind_idx").on(table.userId, table.artistEventId, table.kind),
+]);
+
+// Reminders already sent for wishlisted concerts; the unique index keeps each one to a single send
+export const concertReminders = pgTable("concert_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  concertId: varchar("concert_id").references(() => concerts.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // 'advance', 'day_of'
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("concert_reminders_user_concert_kind_idx").on(table.userId, table.concertId, table.kind),
+]);
+
+// Cached responses from Ticketmaster/Setlist.fm (used when API_CACHE_STORE=postgres)
+export const apiCacheEntries = pgTable("api_cache_entries", {
+  key: text("key").primaryKey(), // provider + request URL without API keys
+  provider: varchar("provider", { length: 50 }).notNull(),
+  status: integer("status").notNull(),
+  data: jsonb("data"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("api_cache_entries_expires_at_idx").on(table.expiresAt),
+]);
 
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  role: true, // Only changed by admins
+  hiddenAt: true,
+  suspendedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -225,13 +459,30 @@ export type InsertUser = typeof users.$inferInsert;
 
 export const insertConcertSchema = createInsertSchema(concerts).omit({
   id: true,
+  artistId: true, // Resolved server-side from the artist name
+  venueId: true, // Resolved server-side from the venue name and city
+  ticketmasterId: true, // Aliases come from the prefixed id on import
+  setlistFmId: true,
+  matchKey: true,
+  startsAt: true, // Derived server-side from date, time, timezone and price
+  priceMin: true,
+  priceMax: true,
+  currency: true,
+  fieldsParsedAt: true,
+  statusCheckedAt: true,
+  deletedAt: true,
+  deletedBy: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  status: z.enum(["scheduled", "cancelled", "postponed", "rescheduled"]).optional(),
 });
 
 export const insertReviewSchema = createInsertSchema(reviews).omit({
   id: true,
   likes: true,
+  hiddenAt: true,
+  editedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -245,6 +496,7 @@ export const insertReviewSchema = createInsertSchema(reviews).omit({
 
 export const insertUserFollowSchema = createInsertSchema(userFollows).omit({
   id: true,
+  status: true,
   createdAt: true,
 });
 
@@ -260,6 +512,7 @@ export const insertReviewLikeSchema = createInsertSchema(reviewLikes).omit({
 
 export const insertReviewCommentSchema = createInsertSchema(reviewComments).omit({
   id: true,
+  hiddenAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -275,6 +528,7 @@ export const insertArtistSchema = createInsertSchema(artists).omit({
   id: true,
   followerCount: true,
   concertCount: true,
+  eventsScannedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -289,8 +543,13 @@ export const insertVenueSchema = createInsertSchema(venues).omit({
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
+  calendarToken: true, // Only issued or reset through the calendar endpoints
   createdAt: true,
   updatedAt: true,
+}).extend({
+  theme: z.enum(["light", "dark", "system"]).optional(),
+  reminderDaysBefore: z.number().int().min(1).max(14).optional(),
+  artistAlertRadiusKm: z.number().int().min(1).max(1000).nullable().optional(),
 });
 
 export const insertSetlistSchema = createInsertSchema(setlists).omit({
@@ -299,6 +558,87 @@ export const insertSetlistSchema = createInsertSchema(setlists).omit({
   updatedAt: true,
 });
 
+export const insertConcertActSchema = createInsertSchema(concertActs).omit({
+  id: true,
+  concertId: true,
+  artistId: true, // Resolved server-side from the act name
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  role: z.enum(["headliner", "support"]).optional(),
+  position: z.number().int().min(0).optional(),
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  setTime: z.string().max(20).nullable().optional(),
+});
+
+// Act ratings are sent by name so they work for shows that aren't stored yet
+export const actRatingSchema = z.object({
+  actName: z.string().trim().min(1),
+  day: z.string().nullable().optional(), // Which festival day, for acts that play more than one
+  rating: z.number().int().min(1).max(5),
+});
+
+// Just enough of the concert to show the draft and store the concert on publish
+export const reviewDraftConcertSchema = z.object({
+  id: z.string().min(1),
+  artist: z.string(),
+  venue: z.string(),
+  city: z.string(),
+  date: z.string(),
+}).passthrough();
+
+// Drafts may be incomplete, so the text has no minimum length
+export const insertReviewDraftSchema = createInsertSchema(reviewDrafts).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  concertId: z.string().min(1),
+  concert: reviewDraftConcertSchema,
+  overallRating: z.number().int().min(1).max(5),
+  performanceRating: z.number().int().min(1).max(5),
+  soundRating: z.number().int().min(1).max(5),
+  venueRating: z.number().int().min(1).max(5),
+  valueRating: z.number().int().min(1).max(5),
+  reviewText: z.string().max(2000),
+  photos: z.array(z.string()).max(5),
+  actRatings: actRatingSchema.array().max(200),
+});
+
+// The details anyone can propose changes to; ids, aliases and derived fields are left out
+export const concertEditSchema = insertConcertSchema.pick({
+  artist: true,
+  venue: true,
+  city: true,
+  date: true,
+  endDate: true,
+  time: true,
+  price: true,
+  timezone: true,
+  genre: true,
+  description: true,
+  imageUrl: true,
+  ticketUrl: true,
+  status: true,
+  isFestival: true,
+}).partial();
+
+export const reportTargetTypes = ["review", "comment", "user"] as const;
+export const reportReasons = ["spam", "harassment", "hate", "inappropriate", "misinformation", "other"] as const;
+export const insertReportSchema = createInsertSchema(reports).omit({
+  id: true,
+  reporterId: true,
+  status: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+}).extend({
+  targetType: z.enum(reportTargetTypes),
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).nullable().optional(),
+});
+
 export const insertArtistFollowSchema = createInsertSchema(artistFollows).omit({
   id: true,
   createdAt: true,
@@ -307,6 +647,9 @@ export const insertArtistFollowSchema = createInsertSchema(artistFollows).omit({
 // Additional type exports
 export type Concert = typeof concerts.$inferSelect;
 export type Review = typeof reviews.$inferSelect;
+export type ReviewRevision = typeof reviewRevisions.$inferSelect;
+export type ReviewDraft = typeof reviewDrafts.$inferSelect;
+export type ReviewDraftConcert = z.infer<typeof reviewDraftConcertSchema>;
 export type UserFollow = typeof userFollows.$inferSelect;
 export type ConcertWishlist = typeof concertWishlists.$inferSelect;
 export type ReviewLike = typeof reviewLikes.$inferSelect;
@@ -317,9 +660,25 @@ export type Venue = typeof venues.$inferSelect;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type Setlist = typeof setlists.$inferSelect;
 export type ArtistFollow = typeof artistFollows.$inferSelect;
+export type ConcertReminder = typeof concertReminders.$inferSelect;
+export type ConcertReminderKind = 'advance' | 'day_of';
+export type ConcertAct = typeof concertActs.$inferSelect;
+export type ReviewActRating = typeof reviewActRatings.$inferSelect;
+export type ArtistEvent = typeof artistEvents.$inferSelect;
+export type ArtistEventAlertKind = 'announced' | 'on_sale';
+export type Report = typeof reports.$inferSelect;
+export type ConcertEditProposal = typeof concertEditProposals.$inferSelect;
+export type ConcertRevision = typeof concertRevisions.$inferSelect;
+export type ConcertEditProposalStatus = 'pending' | 'accepted' | 'rejected';
+export type ReportTargetType = typeof reportTargetTypes[number];
+export type ReportStatus = 'open' | 'dismissed' | 'actioned';
+export const userRoles = ["user", "moderator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+export type ConcertStatus = 'scheduled' | 'cancelled' | 'postponed' | 'rescheduled';
 
 export type InsertConcert = z.infer<typeof insertConcertSchema>;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type InsertReviewDraft = z.infer<typeof insertReviewDraftSchema>;
 export type InsertUserFollow = z.infer<typeof insertUserFollowSchema>;
 export type InsertConcertWishlist = z.infer<typeof insertConcertWishlistSchema>;
 export type InsertReviewLike = z.infer<typeof insertReviewLikeSchema>;
@@ -330,9 +689,13 @@ export type InsertVenue = z.infer<typeof insertVenueSchema>;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type InsertSetlist = z.infer<typeof insertSetlistSchema>;
 export type InsertArtistFollow = z.infer<typeof insertArtistFollowSchema>;
+export type InsertConcertAct = z.infer<typeof insertConcertActSchema>;
+export type ActRating = z.infer<typeof actRatingSchema>;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ConcertEdit = z.infer<typeof concertEditSchema>;
 
 // Public user type (excludes sensitive fields)
-export type PublicUser = Omit<User, 'email'>;
+export type PublicUser = Omit<User, 'email' | 'role' | 'hiddenAt' | 'suspendedAt'>;
 
 // Extended types for API responses
 export type ReviewWithUser = Review & {
@@ -343,10 +706,21 @@ export type ReviewWithUser = Review & {
   commentsCount?: number;
 };
 
+export type FeedPage = {
+  reviews: ReviewWithUser[];
+  nextCursor: string | null;
+  // 'trending' when the viewer doesn't follow anyone yet
+  source: 'following' | 'trending';
+};
+
 export type ReviewCommentWithUser = ReviewComment & {
   user: PublicUser;
 };
 
+export type NotificationWithUser = Notification & {
+  relatedUser: PublicUser | null;
+};
+
 export type ConcertWithRating = Concert & {
   averageRating?: number;
   performanceRating?: number;
@@ -355,8 +729,66 @@ export type ConcertWithRating = Concert & {
   valueRating?: number;
   reviewCount?: number;
   isWishlisted?: boolean;
+  distanceKm?: number; // Only set for "near" searches
+};
+
+// Lineup entries with how reviewers rated each act. Acts of shows that
+// aren't stored yet have no id.
+export type ConcertActWithRating = Pick<ConcertAct, 'name' | 'role' | 'position' | 'day' | 'setTime'> & {
+  id?: string;
+  artistId?: string | null;
+  averageRating: number | null;
+  ratingCount: number;
+};
+
+export type RecommendedConcert = ConcertWithRating & {
+  score: number;
+  reason: string; // "Because you rated Radiohead 5★"
+};
+
+export type ConcertSearchPage = {
+  concerts: ConcertWithRating[];
+  // Opaque position in each source (database, Ticketmaster, Setlist.fm)
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+
+// Global search: each hit carries its rank and a snippet with matches wrapped in <mark>
+export type SearchHit<T> = T & { rank: number; snippet: string };
+
+export type ReviewSearchResult = Pick<Review, 'id' | 'concertId' | 'overallRating' | 'createdAt'> & {
+  user: Pick<PublicUser, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl'>;
+  concert: Pick<Concert, 'id' | 'artist' | 'venue' | 'date'>;
 };
 
+export type SearchResults = {
+  concerts: SearchHit<Concert>[];
+  artists: SearchHit<Artist>[];
+  venues: SearchHit<Venue>[];
+  users: SearchHit<PublicUser>[];
+  reviews: SearchHit<ReviewSearchResult>[];
+};
+
+export type CategoryRatings = {
+  overall: number;
+  performance: number;
+  sound: number;
+  venue: number;
+  value: number;
+};
+
+export type ArtistWithStats = Artist & {
+  averageRatings?: CategoryRatings;
+  reviewCount: number;
+  isFollowing?: boolean;
+};
+
+export type VenueWithStats = Venue & {
+  averageRatings?: CategoryRatings;
+};
+
+export type FollowStatus = 'none' | 'pending' | 'accepted';
+
 export type UserWithStats = PublicUser & {
   stats: {
     concertsAttended: number;
@@ -366,4 +798,34 @@ export type UserWithStats = PublicUser & {
     averageRating?: number;
   };
   isFollowing?: boolean;
+  followStatus?: FollowStatus;
+  // False when the profile is private and the viewer isn't an approved follower
+  canViewContent?: boolean;
+};
+
+// Open reports grouped by what they're about, for the moderation queue
+export type ModerationQueueItem = {
+  targetType: ReportTargetType;
+  targetId: string;
+  status: ReportStatus;
+  reportCount: number;
+  reports: Array<Pick<Report, 'id' | 'reason' | 'details' | 'createdAt'> & { reporterUsername: string | null }>;
+  hidden: boolean;
+  // Null once the reported content has been deleted
+  content: {
+    text: string;
+    author: Pick<PublicUser, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl'> | null;
+    authorSuspended: boolean;
+    link: string | null;
+  } | null;
+};
+
+type ConcertEditor = Pick<PublicUser, 'id' | 'username' | 'firstName' | 'lastName' | 'profileImageUrl'>;
+
+export type ConcertEditProposalWithUser = ConcertEditProposal & {
+  proposer: ConcertEditor | null;
+};
+
+export type ConcertRevisionWithUser = ConcertRevision & {
+  editor: ConcertEditor | null;
 };